@@ -1,4 +1,5 @@
 import type { Metadata } from 'next';
+import { ThemeProvider, ThemeScript } from '@boombox/components/client';
 
 export const metadata: Metadata = {
   title: 'Boombox Design System Playground',
@@ -11,8 +12,14 @@ export default function RootLayout({
   children: React.ReactNode;
 }) {
   return (
-    <html lang="en">
-      <body>{children}</body>
+    // ThemeScript sets data-theme before React hydrates, so the attribute differs from the server HTML
+    <html lang="en" suppressHydrationWarning>
+      <head>
+        <ThemeScript />
+      </head>
+      <body>
+        <ThemeProvider>{children}</ThemeProvider>
+      </body>
     </html>
   );
 } 
\ No newline at end of file
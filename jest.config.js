@@ -7,7 +7,7 @@ module.exports = {
       testMatch: ['<rootDir>/packages/components/src/**/*.{test,spec}.{ts,tsx}'],
       setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
       testEnvironment: 'jsdom',
-      moduleNameMapping: {
+      moduleNameMapper: {
         '^@/(.*)$': '<rootDir>/packages/components/src/$1',
         '^@boombox/tokens$': '<rootDir>/packages/tokens/src',
         '^@boombox/utils$': '<rootDir>/packages/utils/src',
@@ -15,7 +15,7 @@ module.exports = {
       },
       transform: {
         '^.+\\.(ts|tsx)$': ['ts-jest', {
-          tsconfig: 'packages/components/tsconfig.json'
+          tsconfig: '<rootDir>/packages/components/tsconfig.json'
         }],
       },
       moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json'],
@@ -29,14 +29,14 @@ module.exports = {
     {
       displayName: 'tokens',
       testMatch: ['<rootDir>/packages/tokens/src/**/*.{test,spec}.{ts,tsx}'],
-      setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
+      // Plain data and utilities - no DOM matchers or Next.js mocks
       testEnvironment: 'node',
-      moduleNameMapping: {
+      moduleNameMapper: {
         '^@/(.*)$': '<rootDir>/packages/tokens/src/$1',
       },
       transform: {
         '^.+\\.(ts|tsx)$': ['ts-jest', {
-          tsconfig: 'packages/tokens/tsconfig.json'
+          tsconfig: '<rootDir>/packages/tokens/tsconfig.json'
         }],
       },
       collectCoverageFrom: [
@@ -50,12 +50,12 @@ module.exports = {
       testMatch: ['<rootDir>/packages/utils/src/**/*.{test,spec}.{ts,tsx}'],
       setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
       testEnvironment: 'jsdom',
-      moduleNameMapping: {
+      moduleNameMapper: {
         '^@/(.*)$': '<rootDir>/packages/utils/src/$1',
       },
       transform: {
         '^.+\\.(ts|tsx)$': ['ts-jest', {
-          tsconfig: 'packages/utils/tsconfig.json'
+          tsconfig: '<rootDir>/packages/utils/tsconfig.json'
         }],
       },
       collectCoverageFrom: [
@@ -69,12 +69,12 @@ module.exports = {
       testMatch: ['<rootDir>/packages/icons/src/**/*.{test,spec}.{ts,tsx}'],
       setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
       testEnvironment: 'jsdom',
-      moduleNameMapping: {
+      moduleNameMapper: {
         '^@/(.*)$': '<rootDir>/packages/icons/src/$1',
       },
       transform: {
         '^.+\\.(ts|tsx)$': ['ts-jest', {
-          tsconfig: 'packages/icons/tsconfig.json'
+          tsconfig: '<rootDir>/packages/icons/tsconfig.json'
         }],
       },
       collectCoverageFrom: [
@@ -88,13 +88,13 @@ module.exports = {
       testMatch: ['<rootDir>/packages/email/src/**/*.{test,spec}.{ts,tsx}'],
       setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
       testEnvironment: 'jsdom',
-      moduleNameMapping: {
+      moduleNameMapper: {
         '^@/(.*)$': '<rootDir>/packages/email/src/$1',
         '^@boombox/tokens$': '<rootDir>/packages/tokens/src',
       },
       transform: {
         '^.+\\.(ts|tsx)$': ['ts-jest', {
-          tsconfig: 'packages/email/tsconfig.json'
+          tsconfig: '<rootDir>/packages/email/tsconfig.json'
         }],
       },
       collectCoverageFrom: [
@@ -108,12 +108,12 @@ module.exports = {
       testMatch: ['<rootDir>/packages/content/src/**/*.{test,spec}.{ts,tsx}'],
       setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
       testEnvironment: 'node',
-      moduleNameMapping: {
+      moduleNameMapper: {
         '^@/(.*)$': '<rootDir>/packages/content/src/$1',
       },
       transform: {
         '^.+\\.(ts|tsx)$': ['ts-jest', {
-          tsconfig: 'packages/content/tsconfig.json'
+          tsconfig: '<rootDir>/packages/content/tsconfig.json'
         }],
       },
       collectCoverageFrom: [
@@ -122,6 +122,19 @@ module.exports = {
         '!packages/content/src/**/index.ts',
       ],
     },
+    {
+      displayName: 'tools',
+      testMatch: ['<rootDir>/tools/scripts/**/*.{test,spec}.ts'],
+      testEnvironment: 'node',
+      moduleNameMapper: {
+        '^@boombox/tokens$': '<rootDir>/packages/tokens/src',
+      },
+      transform: {
+        '^.+\\.ts$': ['ts-jest', {
+          tsconfig: '<rootDir>/packages/tokens/tsconfig.json'
+        }],
+      },
+    },
   ],
   
   // Global configuration
@@ -1,6 +1,12 @@
 // Jest setup file for Boombox Design System
-import '@testing-library/jest-dom';
-import 'jest-axe/extend-expect';
+// Loaded untransformed, so it sticks to CommonJS and React.createElement
+const React = require('react');
+require('@testing-library/jest-dom');
+require('jest-axe/extend-expect');
+
+// jsdom lacks TextEncoder, which react-dom/server needs for server markup tests
+const { TextEncoder } = require('util');
+global.TextEncoder = global.TextEncoder || TextEncoder;
 
 // Mock Next.js router
 jest.mock('next/router', () => ({
@@ -40,8 +46,7 @@ jest.mock('next/navigation', () => ({
 jest.mock('next/image', () => ({
   __esModule: true,
   default: (props) => {
-    // eslint-disable-next-line @next/next/no-img-element
-    return <img {...props} alt={props.alt} />;
+    return React.createElement('img', { ...props, alt: props.alt });
   },
 }));
 
@@ -49,7 +54,7 @@ jest.mock('next/image', () => ({
 jest.mock('next/link', () => ({
   __esModule: true,
   default: ({ children, ...props }) => {
-    return <a {...props}>{children}</a>;
+    return React.createElement('a', props, children);
   },
 }));
 
@@ -88,16 +93,6 @@ Object.defineProperty(window, 'scrollTo', {
   value: jest.fn(),
 });
 
-// Mock getComputedStyle
-Object.defineProperty(window, 'getComputedStyle', {
-  writable: true,
-  value: jest.fn().mockImplementation(() => ({
-    getPropertyValue: jest.fn(),
-    width: '100px',
-    height: '100px',
-  })),
-});
-
 // Mock HTMLElement methods
 Object.defineProperty(HTMLElement.prototype, 'scrollIntoView', {
   writable: true,
@@ -131,30 +126,38 @@ Object.defineProperty(document.documentElement, 'style', {
 // Mock clipboard API
 Object.defineProperty(navigator, 'clipboard', {
   writable: true,
+  configurable: true, // userEvent.setup() attaches its own clipboard stub
   value: {
     writeText: jest.fn().mockResolvedValue(undefined),
     readText: jest.fn().mockResolvedValue(''),
   },
 });
 
-// Mock localStorage
-const localStorageMock = {
-  getItem: jest.fn(),
-  setItem: jest.fn(),
-  removeItem: jest.fn(),
-  clear: jest.fn(),
+// In-memory Storage mock - spies on calls and keeps values, so reads return what was stored
+const createStorageMock = () => {
+  let store = {};
+  return {
+    getItem: jest.fn((key) => (key in store ? store[key] : null)),
+    setItem: jest.fn((key, value) => {
+      store[key] = String(value);
+    }),
+    removeItem: jest.fn((key) => {
+      delete store[key];
+    }),
+    clear: jest.fn(() => {
+      store = {};
+    }),
+  };
 };
+
+// Mock localStorage
+const localStorageMock = createStorageMock();
 Object.defineProperty(window, 'localStorage', {
   value: localStorageMock,
 });
 
 // Mock sessionStorage
-const sessionStorageMock = {
-  getItem: jest.fn(),
-  setItem: jest.fn(),
-  removeItem: jest.fn(),
-  clear: jest.fn(),
-};
+const sessionStorageMock = createStorageMock();
 Object.defineProperty(window, 'sessionStorage', {
   value: sessionStorageMock,
 });
@@ -0,0 +1,7 @@
+// Client entry (@boombox/components/client) - context providers and the hooks that read them.
+// The build marks this bundle 'use client', so server layouts can render the providers.
+export * from "./providers/DensityProvider";
+export * from "./providers/LayerProvider";
+export * from "./providers/ThemeProvider";
+export { useTheme, type ThemeContextValue } from "./hooks/useTheme";
+export * from "./layouts/ResponsiveContainer";
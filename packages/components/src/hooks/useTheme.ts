@@ -0,0 +1,26 @@
+'use client';
+
+import React from 'react';
+import type { ThemeMode, ThemeName } from '@boombox/tokens';
+import type { ThemePreference } from '../utils/theme';
+
+export interface ThemeContextValue {
+  theme: ThemePreference;               // User's choice, including 'system'
+  resolvedTheme: ThemeName;             // Theme applied to the page
+  systemTheme: ThemeMode;               // OS color scheme
+  themes: readonly ThemePreference[];   // Choices to offer in a theme switcher
+  setTheme: (theme: ThemePreference) => void;
+}
+
+// Theme state of the enclosing ThemeProvider
+export const ThemeContext = React.createContext<ThemeContextValue | null>(null);
+
+// Current theme and setter. During server rendering `theme` is the provider default - render
+// theme-dependent markup (switcher icons) after mount; page colors come from CSS and never mismatch.
+export function useTheme(): ThemeContextValue {
+  const context = React.useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used within a ThemeProvider');
+  }
+  return context;
+}
@@ -1,2 +1,5 @@
 // UI components will be exported from here
-export * from "./primitives/Button";
\ No newline at end of file
+// Server-safe exports only - providers and hooks are in the client entry (./client)
+export * from "./primitives/Button";
+export * from "./utils/theme";
+export * from "./utils/variants";
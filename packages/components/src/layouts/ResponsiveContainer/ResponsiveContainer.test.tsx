@@ -0,0 +1,37 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { ResponsiveContainer, useContainerName, useContainerQuery } from './ResponsiveContainer';
+
+// jsdom drops container-* declarations, so these tests check server markup
+const ContainerInfo = () => <span>{`${useContainerName()}|${useContainerQuery('md')}`}</span>;
+
+describe('ResponsiveContainer', () => {
+  it('establishes an inline-size container', () => {
+    expect(renderToStaticMarkup(<ResponsiveContainer>Quote</ResponsiveContainer>))
+      .toBe('<div style="container-type:inline-size">Quote</div>');
+  });
+
+  it('names the container for descendants', () => {
+    expect(renderToStaticMarkup(
+      <ResponsiveContainer name="card" className="p-4">
+        <ContainerInfo />
+      </ResponsiveContainer>
+    )).toBe(
+      '<div class="p-4" style="container-type:inline-size;container-name:card">' +
+      '<span>card|@container card (min-width: 28rem)</span></div>'
+    );
+  });
+
+  it('queries the nearest container when unnamed', () => {
+    const markup = renderToStaticMarkup(
+      <ResponsiveContainer name="sidebar">
+        <ResponsiveContainer type="size">
+          <ContainerInfo />
+        </ResponsiveContainer>
+      </ResponsiveContainer>
+    );
+
+    expect(markup).toContain('style="container-type:size"');
+    expect(markup).toContain('<span>null|@container (min-width: 28rem)</span>');
+  });
+});
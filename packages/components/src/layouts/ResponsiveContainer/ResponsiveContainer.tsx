@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import { breakpointUtils, type ContainerQueries } from '@boombox/tokens';
+
+export type ContainerType = 'inline-size' | 'size' | 'normal';
+
+export interface ResponsiveContainerProps extends React.HTMLAttributes<HTMLDivElement> {
+  name?: string;          // Container name for @md/<name>: variants and @container <name> queries
+  type?: ContainerType;   // What the container measures, defaults to inline-size (width)
+}
+
+// Name of the closest enclosing ResponsiveContainer, null when it is unnamed or absent
+const ContainerNameContext = React.createContext<string | null>(null);
+
+// Name of the enclosing container - for components that build container queries in JS
+export function useContainerName(): string | null {
+  return React.useContext(ContainerNameContext);
+}
+
+// Container query for the enclosing container, e.g. '@container card (min-width: 28rem)'
+export function useContainerQuery(size: keyof ContainerQueries): string {
+  return breakpointUtils.buildContainerQuery(size, useContainerName() ?? undefined);
+}
+
+// Establish a container so descendants respond to its width instead of the viewport
+// (cards and quote widgets embedded in sidebars). Descendants use @sm:/@md: classes,
+// or @md/<name>: to target this container through nested ones.
+const ResponsiveContainer = React.forwardRef<HTMLDivElement, ResponsiveContainerProps>(
+  ({ name, type = 'inline-size', className, style, children, ...props }, ref) => {
+    return (
+      <ContainerNameContext.Provider value={name ?? null}>
+        <div
+          ref={ref}
+          className={className}
+          style={{ containerType: type, ...(name && { containerName: name }), ...style }}
+          {...props}
+        >
+          {children}
+        </div>
+      </ContainerNameContext.Provider>
+    );
+  }
+);
+
+ResponsiveContainer.displayName = 'ResponsiveContainer';
+
+export { ResponsiveContainer };
@@ -48,31 +48,31 @@ describe('Button Component', () => {
     it('applies primary variant styles', () => {
       renderButton({ variant: 'primary' });
       const button = screen.getByRole('button');
-      expect(button).toHaveClass('bg-blue-600', 'text-white');
+      expect(button).toHaveClass('bg-primary-950', 'text-white');
     });
 
     it('applies secondary variant styles', () => {
       renderButton({ variant: 'secondary' });
       const button = screen.getByRole('button');
-      expect(button).toHaveClass('bg-gray-200', 'text-gray-900');
+      expect(button).toHaveClass('bg-secondary-100', 'text-primary-950');
     });
 
     it('applies outline variant styles', () => {
       renderButton({ variant: 'outline' });
       const button = screen.getByRole('button');
-      expect(button).toHaveClass('border', 'border-gray-300', 'bg-transparent');
+      expect(button).toHaveClass('border', 'border-secondary-200', 'bg-transparent');
     });
 
     it('applies destructive variant styles', () => {
       renderButton({ variant: 'destructive' });
       const button = screen.getByRole('button');
-      expect(button).toHaveClass('bg-red-600', 'text-white');
+      expect(button).toHaveClass('bg-error-600', 'text-white');
     });
 
     it('applies ghost variant styles', () => {
       renderButton({ variant: 'ghost' });
       const button = screen.getByRole('button');
-      expect(button).toHaveClass('hover:bg-gray-100');
+      expect(button).toHaveClass('hover:bg-primary-100');
     });
   });
 
@@ -80,19 +80,32 @@ describe('Button Component', () => {
     it('applies small size styles', () => {
       renderButton({ size: 'sm' });
       const button = screen.getByRole('button');
-      expect(button).toHaveClass('h-8', 'px-3', 'text-xs');
+      expect(button).toHaveClass('h-control-sm', 'px-control-sm', 'text-control-sm');
     });
 
     it('applies medium size styles (default)', () => {
       renderButton({ size: 'md' });
       const button = screen.getByRole('button');
-      expect(button).toHaveClass('h-10', 'px-4');
+      expect(button).toHaveClass('h-control-md', 'px-control-md', 'text-control-md');
     });
 
     it('applies large size styles', () => {
       renderButton({ size: 'lg' });
       const button = screen.getByRole('button');
-      expect(button).toHaveClass('h-12', 'px-6', 'text-base');
+      expect(button).toHaveClass('h-control-lg', 'px-control-lg', 'text-control-lg');
+    });
+
+    it('applies responsive size styles per breakpoint', () => {
+      renderButton({ size: { base: 'lg', md: 'sm' } });
+      const button = screen.getByRole('button');
+      expect(button).toHaveClass('h-control-lg', 'px-control-lg', 'md:h-control-sm', 'md:text-control-sm');
+      expect(button).not.toHaveClass('h-control-md');
+    });
+
+    it('keeps the default size below the first responsive breakpoint', () => {
+      renderButton({ size: { lg: 'sm' } });
+      const button = screen.getByRole('button');
+      expect(button).toHaveClass('h-control-md', 'px-control-md', 'lg:h-control-sm', 'lg:px-control-sm');
     });
   });
 
@@ -162,7 +175,7 @@ describe('Button Component', () => {
       await user.keyboard('{Enter}');
       expect(handleClick).toHaveBeenCalledTimes(1);
       
-      await user.keyboard('{Space}');
+      await user.keyboard('[Space]');
       expect(handleClick).toHaveBeenCalledTimes(2);
     });
   });
@@ -218,7 +231,7 @@ describe('Button Component', () => {
       // but we can test that the proper classes are applied
       renderButton({ variant: 'primary' });
       const button = screen.getByRole('button');
-      expect(button).toHaveClass('bg-blue-600', 'text-white');
+      expect(button).toHaveClass('bg-primary-950', 'text-white');
     });
   });
 
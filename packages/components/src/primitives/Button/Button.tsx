@@ -1,34 +1,44 @@
 import React from 'react';
 import { cva, type VariantProps } from 'class-variance-authority';
+import type { Responsive } from '@boombox/tokens';
 import { cn } from '../../utils/cn';
+import { splitResponsiveVariant } from '../../utils/variants';
+
+// Control sizes follow the enclosing data-density mode (DensityProvider)
+const buttonSizes = {
+  sm: 'h-control-sm px-control-sm text-control-sm',
+  md: 'h-control-md px-control-md text-control-md',
+  lg: 'h-control-lg px-control-lg text-control-lg',
+};
+
+export type ButtonSize = keyof typeof buttonSizes;
+
+const DEFAULT_SIZE: ButtonSize = 'md';
 
 const buttonVariants = cva(
-  'inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 disabled:opacity-50 disabled:pointer-events-none',
+  'inline-flex items-center justify-center rounded-md font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-950 focus-visible:ring-offset-2 disabled:opacity-50 disabled:pointer-events-none',
   {
     variants: {
       variant: {
-        primary: 'bg-blue-600 text-white hover:bg-blue-700',
-        secondary: 'bg-gray-200 text-gray-900 hover:bg-gray-300',
-        outline: 'border border-gray-300 bg-transparent hover:bg-gray-100',
-        destructive: 'bg-red-600 text-white hover:bg-red-700',
-        ghost: 'hover:bg-gray-100 hover:text-gray-900',
-      },
-      size: {
-        sm: 'h-8 px-3 text-xs',
-        md: 'h-10 px-4',
-        lg: 'h-12 px-6 text-base',
+        primary: 'bg-primary-950 text-white hover:bg-primary-800',
+        secondary: 'bg-secondary-100 text-primary-950 hover:bg-secondary-200',
+        outline: 'border border-secondary-200 bg-transparent text-primary-950 hover:bg-primary-100',
+        destructive: 'bg-error-600 text-white hover:bg-error-700',
+        ghost: 'text-primary-950 hover:bg-primary-100',
       },
+      size: buttonSizes,
     },
     defaultVariants: {
       variant: 'primary',
-      size: 'md',
+      size: DEFAULT_SIZE,
     },
   }
 );
 
 export interface ButtonProps
   extends React.ButtonHTMLAttributes<HTMLButtonElement>,
-    VariantProps<typeof buttonVariants> {
+    Omit<VariantProps<typeof buttonVariants>, 'size'> {
+  size?: Responsive<ButtonSize>;  // e.g. { base: 'lg', md: 'md' }
   asChild?: boolean;
   loading?: boolean;
   loadingText?: string;
@@ -37,10 +47,18 @@ export interface ButtonProps
 const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
   ({ className, variant, size, asChild = false, loading, loadingText, disabled, children, ...props }, ref) => {
     const isDisabled = disabled || loading;
+    const responsiveSize = splitResponsiveVariant(size, buttonSizes, DEFAULT_SIZE);
+    // Explicit disabled classes so asChild content, which has no :disabled state, dims too
+    const classes = cn(
+      buttonVariants({ variant, size: responsiveSize.variant }),
+      responsiveSize.className,
+      isDisabled && 'opacity-50 pointer-events-none',
+      className
+    );
 
     if (asChild) {
       return (
-        <span className={cn(buttonVariants({ variant, size, className }))}>
+        <span className={classes}>
           {children}
         </span>
       );
@@ -48,9 +66,10 @@ const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
 
     return (
       <button
-        className={cn(buttonVariants({ variant, size, className }))}
+        className={classes}
         ref={ref}
         disabled={isDisabled}
+        aria-disabled={isDisabled || undefined}
         {...props}
       >
         {loading && (
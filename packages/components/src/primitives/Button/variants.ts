@@ -4,10 +4,10 @@ export const getButtonVariants = () => {
     const baseClasses = 'inline-flex items-center justify-center rounded-md font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed';
     
     const variantClasses = {
-      primary: 'bg-blue-600 text-white hover:bg-blue-700 focus:ring-blue-500',
-      secondary: 'bg-zinc-200 text-gray-900 hover:bg-gray-300 focus:ring-gray-500',
-      outline: 'border border-gray-300 bg-transparent hover:bg-gray-50 focus:ring-gray-500',
-      ghost: 'bg-transparent hover:bg-gray-100 focus:ring-gray-500'
+      primary: 'bg-primary-950 text-white hover:bg-primary-800 focus:ring-primary-950',
+      secondary: 'bg-secondary-100 text-primary-950 hover:bg-secondary-200 focus:ring-primary-950',
+      outline: 'border border-secondary-200 bg-transparent text-primary-950 hover:bg-primary-50 focus:ring-primary-950',
+      ghost: 'bg-transparent text-primary-950 hover:bg-primary-100 focus:ring-primary-950'
     };
     
     const sizeClasses = {
@@ -0,0 +1,38 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { Button } from '../primitives/Button';
+import { DensityProvider, useDensity } from './DensityProvider';
+
+const CurrentDensity = () => <span data-testid="density">{useDensity()}</span>;
+
+describe('DensityProvider', () => {
+  it('defaults to the default density', () => {
+    render(<CurrentDensity />);
+    expect(screen.getByTestId('density')).toHaveTextContent('default');
+  });
+
+  it('scopes the subtree with a data-density attribute', () => {
+    render(
+      <DensityProvider density="compact">
+        <Button>Dispatch</Button>
+        <CurrentDensity />
+      </DensityProvider>
+    );
+
+    expect(screen.getByRole('button').closest('[data-density]')).toHaveAttribute('data-density', 'compact');
+    expect(screen.getByTestId('density')).toHaveTextContent('compact');
+  });
+
+  it('lets nested providers override the outer density', () => {
+    render(
+      <DensityProvider density="compact">
+        <DensityProvider density="comfortable">
+          <CurrentDensity />
+        </DensityProvider>
+      </DensityProvider>
+    );
+
+    expect(screen.getByTestId('density')).toHaveTextContent('comfortable');
+    expect(screen.getByTestId('density').closest('[data-density]')).toHaveAttribute('data-density', 'comfortable');
+  });
+});
@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+import { DEFAULT_DENSITY, type DensityMode } from '@boombox/tokens';
+
+// Density of the closest enclosing DensityProvider
+const DensityContext = React.createContext<DensityMode>(DEFAULT_DENSITY);
+
+export interface DensityProviderProps {
+  density: DensityMode;
+  children: React.ReactNode;
+}
+
+// Current density mode - for components that size themselves in JS
+export function useDensity(): DensityMode {
+  return React.useContext(DensityContext);
+}
+
+// Switch a subtree to another density - sets data-density so the --bb-density-* variables follow
+export function DensityProvider({ density, children }: DensityProviderProps) {
+  return (
+    <DensityContext.Provider value={density}>
+      {/* display: contents keeps the wrapper out of flex and grid layouts */}
+      <div data-density={density} style={{ display: 'contents' }}>
+        {children}
+      </div>
+    </DensityContext.Provider>
+  );
+}
@@ -0,0 +1,61 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { render, screen } from '@testing-library/react';
+import { zIndex } from '@boombox/tokens';
+import { LayerProvider, useLayer, useParentLayer } from './LayerProvider';
+
+// Positioned box that reports its resolved z-index
+const Layered = ({ name, layer }: { name: string; layer: Parameters<typeof useLayer>[0] }) => {
+  const value = useLayer(layer);
+  return <div data-testid={name} style={{ zIndex: value }} />;
+};
+
+const ParentLayer = () => <span data-testid="parent">{String(useParentLayer())}</span>;
+
+describe('LayerProvider', () => {
+  it('uses the token value at the page root', () => {
+    render(<Layered name="dropdown" layer="popup.dropdown" />);
+    expect(screen.getByTestId('dropdown')).toHaveStyle({ zIndex: zIndex.popup.dropdown });
+  });
+
+  it('raises nested layers above their parent', () => {
+    render(
+      <LayerProvider layer="overlay.modal">
+        <Layered name="dropdown" layer="popup.dropdown" />
+        <Layered name="tooltip" layer="popup.tooltip" />
+      </LayerProvider>
+    );
+
+    expect(screen.getByTestId('dropdown')).toHaveStyle({ zIndex: zIndex.overlay.modal + 1 });
+    expect(screen.getByTestId('tooltip')).toHaveStyle({ zIndex: zIndex.popup.tooltip });
+  });
+
+  it('raises layers rendered through portals', () => {
+    render(
+      <LayerProvider layer="overlay.modal">
+        {modalZIndex => (
+          <div data-testid="modal" style={{ zIndex: modalZIndex }}>
+            <LayerProvider layer="popup.dropdown">
+              {createPortal(<Layered name="option" layer="popup.dropdown" />, document.body)}
+            </LayerProvider>
+          </div>
+        )}
+      </LayerProvider>
+    );
+
+    expect(screen.getByTestId('modal')).toHaveStyle({ zIndex: zIndex.overlay.modal });
+    expect(screen.getByTestId('option')).toHaveStyle({ zIndex: zIndex.overlay.modal + 2 });
+  });
+
+  it('exposes the enclosing layer', () => {
+    const { rerender } = render(<ParentLayer />);
+    expect(screen.getByTestId('parent')).toHaveTextContent('null');
+
+    rerender(
+      <LayerProvider layer={500}>
+        <ParentLayer />
+      </LayerProvider>
+    );
+    expect(screen.getByTestId('parent')).toHaveTextContent('500');
+  });
+});
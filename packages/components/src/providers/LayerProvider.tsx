@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { layers, type LayerName } from '@boombox/tokens';
+
+// z-index of the closest enclosing layer, null at the page root
+const LayerContext = React.createContext<number | null>(null);
+
+export interface LayerProviderProps {
+  layer: LayerName | number;
+  children: React.ReactNode | ((zIndex: number) => React.ReactNode);
+}
+
+// Resolve a layer's z-index, raised above the enclosing layer when nested
+// (a dropdown portal opened from a modal must stack above the modal)
+export function useLayer(layer: LayerName | number): number {
+  const parent = React.useContext(LayerContext);
+  const value = typeof layer === 'number' ? layer : layers[layer];
+  return parent !== null && value <= parent ? parent + 1 : value;
+}
+
+// z-index of the enclosing layer, or null outside any LayerProvider
+export function useParentLayer(): number | null {
+  return React.useContext(LayerContext);
+}
+
+// Open a stacking layer - descendants (including portals) stack above it
+export function LayerProvider({ layer, children }: LayerProviderProps) {
+  const zIndex = useLayer(layer);
+
+  return (
+    <LayerContext.Provider value={zIndex}>
+      {typeof children === 'function' ? children(zIndex) : children}
+    </LayerContext.Provider>
+  );
+}
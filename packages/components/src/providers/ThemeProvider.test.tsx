@@ -0,0 +1,136 @@
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { useTheme } from '../hooks/useTheme';
+import { getThemeScript, THEME_STORAGE_KEY } from '../utils/theme';
+import { ThemeProvider } from './ThemeProvider';
+
+// matchMedia stub whose color scheme can be flipped during a test
+function mockColorScheme(dark: boolean) {
+  const listeners = new Set<(event: { matches: boolean }) => void>();
+  const query = {
+    matches: dark,
+    addEventListener: (_: string, listener: (event: { matches: boolean }) => void) => listeners.add(listener),
+    removeEventListener: (_: string, listener: (event: { matches: boolean }) => void) => listeners.delete(listener),
+  };
+  Object.defineProperty(window, 'matchMedia', { writable: true, value: jest.fn(() => query) });
+
+  return (matches: boolean) => {
+    query.matches = matches;
+    act(() => listeners.forEach(listener => listener({ matches })));
+  };
+}
+
+const ThemeSwitcher = () => {
+  const { theme, resolvedTheme, setTheme } = useTheme();
+  return (
+    <>
+      <span data-testid="theme">{`${theme}:${resolvedTheme}`}</span>
+      <button onClick={() => setTheme('dark')}>Dark</button>
+    </>
+  );
+};
+
+const html = document.documentElement;
+
+describe('ThemeProvider', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    html.removeAttribute('data-theme');
+    mockColorScheme(false);
+  });
+
+  it('applies the default theme to the document', () => {
+    render(<ThemeProvider defaultTheme="light"><ThemeSwitcher /></ThemeProvider>);
+
+    expect(screen.getByTestId('theme')).toHaveTextContent('light:light');
+    expect(html).toHaveAttribute('data-theme', 'light');
+    expect(html.style.colorScheme).toBe('light');
+  });
+
+  it('follows the OS color scheme for system', () => {
+    const setDark = mockColorScheme(true);
+    render(<ThemeProvider><ThemeSwitcher /></ThemeProvider>);
+    expect(html).toHaveAttribute('data-theme', 'dark');
+
+    setDark(false);
+    expect(screen.getByTestId('theme')).toHaveTextContent('system:light');
+    expect(html).toHaveAttribute('data-theme', 'light');
+  });
+
+  it('persists the chosen theme and restores it', () => {
+    const { unmount } = render(<ThemeProvider defaultTheme="light"><ThemeSwitcher /></ThemeProvider>);
+    fireEvent.click(screen.getByRole('button', { name: 'Dark' }));
+
+    expect(window.localStorage.getItem(THEME_STORAGE_KEY)).toBe('dark');
+    expect(html).toHaveAttribute('data-theme', 'dark');
+
+    unmount();
+    render(<ThemeProvider defaultTheme="light"><ThemeSwitcher /></ThemeProvider>);
+    expect(screen.getByTestId('theme')).toHaveTextContent('dark:dark');
+  });
+
+  it('hydrates server markup before restoring the stored theme', () => {
+    window.localStorage.setItem(THEME_STORAGE_KEY, 'dark');
+    const ui = <ThemeProvider defaultTheme="light"><ThemeSwitcher /></ThemeProvider>;
+    const container = document.createElement('div');
+    container.innerHTML = renderToString(ui);
+    expect(container).toHaveTextContent('light:light');
+
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    render(ui, { container: document.body.appendChild(container), hydrate: true });
+
+    expect(error).not.toHaveBeenCalled();
+    expect(screen.getByTestId('theme')).toHaveTextContent('dark:dark');
+    expect(html).toHaveAttribute('data-theme', 'dark');
+    error.mockRestore();
+  });
+
+  it('applies the high contrast theme with a light color scheme', () => {
+    render(<ThemeProvider defaultTheme="high-contrast"><ThemeSwitcher /></ThemeProvider>);
+
+    expect(html).toHaveAttribute('data-theme', 'high-contrast');
+    expect(html.style.colorScheme).toBe('light');
+  });
+
+  it('ignores a stored system choice when system is disabled', () => {
+    window.localStorage.setItem(THEME_STORAGE_KEY, 'system');
+    mockColorScheme(true);
+    render(<ThemeProvider defaultTheme="light" enableSystem={false}><ThemeSwitcher /></ThemeProvider>);
+
+    expect(screen.getByTestId('theme')).toHaveTextContent('light:light');
+  });
+
+  it('requires a provider', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(() => render(<ThemeSwitcher />)).toThrow('useTheme must be used within a ThemeProvider');
+    jest.restoreAllMocks();
+  });
+});
+
+describe('getThemeScript', () => {
+  const runScript = (options?: Parameters<typeof getThemeScript>[0]) => new Function(getThemeScript(options))();
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    html.removeAttribute('data-theme');
+  });
+
+  it('applies the stored theme before hydration', () => {
+    window.localStorage.setItem(THEME_STORAGE_KEY, 'dark');
+    runScript({ defaultTheme: 'light' });
+    expect(html).toHaveAttribute('data-theme', 'dark');
+  });
+
+  it('falls back to the default theme and resolves system', () => {
+    window.localStorage.setItem(THEME_STORAGE_KEY, 'sepia');
+    mockColorScheme(true);
+    runScript();
+    expect(html).toHaveAttribute('data-theme', 'dark');
+    expect(html.style.colorScheme).toBe('dark');
+  });
+
+  it('escapes the inline configuration', () => {
+    expect(getThemeScript({ storageKey: '</script>' })).not.toContain('</script>');
+  });
+});
@@ -0,0 +1,112 @@
+'use client';
+
+import React from 'react';
+import type { ThemeMode } from '@boombox/tokens';
+import { ThemeContext, type ThemeContextValue } from '../hooks/useTheme';
+import {
+  applyTheme,
+  COLOR_SCHEME_QUERY,
+  getSystemTheme,
+  getThemeScript,
+  isThemePreference,
+  readStoredTheme,
+  resolveTheme,
+  storeTheme,
+  THEME_PREFERENCES,
+  THEME_STORAGE_KEY,
+  type ThemePreference,
+  type ThemeScriptOptions,
+} from '../utils/theme';
+
+export interface ThemeProviderProps {
+  defaultTheme?: ThemePreference;   // Used until the user picks a theme, defaults to 'system'
+  enableSystem?: boolean;           // Allow 'system', defaults to true
+  storageKey?: string;              // localStorage key, defaults to 'bb-theme'
+  children: React.ReactNode;
+}
+
+export interface ThemeScriptProps extends ThemeScriptOptions {
+  nonce?: string;                   // Content Security Policy nonce
+}
+
+// A theme choice when it is offered, otherwise the fallback
+function pickTheme(value: unknown, themes: readonly ThemePreference[], fallback: ThemePreference): ThemePreference {
+  return isThemePreference(value) && themes.includes(value) ? value : fallback;
+}
+
+// Apply light/dark/system mode to the document through data-theme and persist the choice.
+// Pair with <ThemeScript /> in <head> so the stored theme is applied before first paint.
+export function ThemeProvider({
+  defaultTheme = 'system',
+  enableSystem = true,
+  storageKey = THEME_STORAGE_KEY,
+  children,
+}: ThemeProviderProps) {
+  const themes = React.useMemo(
+    () => (enableSystem ? THEME_PREFERENCES : THEME_PREFERENCES.filter(theme => theme !== 'system')),
+    [enableSystem]
+  );
+  const fallback: ThemePreference = themes.includes(defaultTheme) ? defaultTheme : 'light';
+
+  // Start from what the server rendered so hydration matches - the inline script has already
+  // applied the stored theme to the document, and state catches up after mount
+  const [theme, setThemeState] = React.useState<ThemePreference>(fallback);
+  const [systemTheme, setSystemTheme] = React.useState<ThemeMode>('light');
+  const [hydrated, setHydrated] = React.useState(false);
+  const resolvedTheme = resolveTheme(theme, systemTheme);
+
+  React.useEffect(() => {
+    setThemeState(pickTheme(readStoredTheme(storageKey), themes, fallback));
+    setSystemTheme(getSystemTheme());
+    setHydrated(true);
+  }, [storageKey, themes, fallback]);
+
+  // Follow OS color scheme changes while 'system' is selectable
+  React.useEffect(() => {
+    if (!enableSystem || typeof window.matchMedia !== 'function') return;
+
+    const query = window.matchMedia(COLOR_SCHEME_QUERY);
+    const onChange = (event: MediaQueryListEvent) => setSystemTheme(event.matches ? 'dark' : 'light');
+    setSystemTheme(query.matches ? 'dark' : 'light');
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, [enableSystem]);
+
+  // Keep tabs in sync when the choice changes elsewhere
+  React.useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== storageKey) return;
+      setThemeState(pickTheme(event.newValue, themes, fallback));
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [storageKey, themes, fallback]);
+
+  // Before the stored choice is read, the document keeps what the inline script applied
+  React.useEffect(() => {
+    if (hydrated) applyTheme(resolvedTheme);
+  }, [hydrated, resolvedTheme]);
+
+  const setTheme = React.useCallback(
+    (next: ThemePreference) => {
+      if (!themes.includes(next)) {
+        throw new Error(`Theme "${next}" not found`);
+      }
+      setThemeState(next);
+      storeTheme(next, storageKey);
+    },
+    [themes, storageKey]
+  );
+
+  const value = React.useMemo<ThemeContextValue>(
+    () => ({ theme, resolvedTheme, systemTheme, themes, setTheme }),
+    [theme, resolvedTheme, systemTheme, themes, setTheme]
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+// Pre-hydration script for the document <head> - pass the same options as ThemeProvider
+export function ThemeScript({ nonce, ...options }: ThemeScriptProps) {
+  return <script nonce={nonce} dangerouslySetInnerHTML={{ __html: getThemeScript(options) }} />;
+}
@@ -1,9 +1,14 @@
 import React from 'react';
 import { render, RenderOptions } from '@testing-library/react';
+import { ThemeProvider } from '../providers/ThemeProvider';
 
-// Simple wrapper without theme provider for now
+// Light theme with 'system' disabled so tests don't depend on the OS color scheme
 const AllTheProviders = ({ children }: { children: React.ReactNode }) => {
-  return <>{children}</>;
+  return (
+    <ThemeProvider defaultTheme="light" enableSystem={false}>
+      {children}
+    </ThemeProvider>
+  );
 };
 
 const customRender = (
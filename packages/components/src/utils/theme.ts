@@ -0,0 +1,79 @@
+import type { ThemeMode, ThemeName } from '@boombox/tokens';
+
+// Theme choice - 'system' follows the OS color scheme
+export type ThemePreference = ThemeName | 'system';
+
+export const THEME_PREFERENCES: readonly ThemePreference[] = ['light', 'dark', 'high-contrast', 'system'];
+export const THEME_STORAGE_KEY = 'bb-theme';
+export const THEME_ATTRIBUTE = 'data-theme';
+export const COLOR_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+export interface ThemeScriptOptions {
+  storageKey?: string;              // localStorage key, defaults to 'bb-theme'
+  defaultTheme?: ThemePreference;   // Used until the user picks a theme, defaults to 'system'
+  enableSystem?: boolean;           // Allow 'system', defaults to true
+}
+
+// Check whether a value is a known theme choice (e.g. a stored value)
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return typeof value === 'string' && (THEME_PREFERENCES as readonly string[]).includes(value);
+}
+
+// OS color scheme - light on the server and where matchMedia is unavailable
+export function getSystemTheme(): ThemeMode {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return 'light';
+  return window.matchMedia(COLOR_SCHEME_QUERY).matches ? 'dark' : 'light';
+}
+
+// Theme to render for a choice
+export function resolveTheme(preference: ThemePreference, systemTheme: ThemeMode = getSystemTheme()): ThemeName {
+  return preference === 'system' ? systemTheme : preference;
+}
+
+// Stored theme choice, or null when nothing valid is stored or storage is blocked
+export function readStoredTheme(storageKey: string = THEME_STORAGE_KEY): ThemePreference | null {
+  try {
+    const value = window.localStorage.getItem(storageKey);
+    return isThemePreference(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Persist a theme choice - private browsing and full quotas are ignored
+export function storeTheme(preference: ThemePreference, storageKey: string = THEME_STORAGE_KEY): void {
+  try {
+    window.localStorage.setItem(storageKey, preference);
+  } catch {
+    // The choice still applies for this page view
+  }
+}
+
+// Switch the theme variables and native controls (scrollbars, form fields) to a theme
+export function applyTheme(theme: ThemeName, element: HTMLElement = document.documentElement): void {
+  element.setAttribute(THEME_ATTRIBUTE, theme);
+  element.style.colorScheme = theme === 'dark' ? 'dark' : 'light';
+}
+
+// Inline script that applies the stored theme before first paint.
+// Render it in <head> ahead of the stylesheets; it mirrors applyTheme and readStoredTheme
+// without imports because it runs before any bundle loads.
+export function getThemeScript(options: ThemeScriptOptions = {}): string {
+  const { storageKey = THEME_STORAGE_KEY, defaultTheme = 'system', enableSystem = true } = options;
+  const config = JSON.stringify({
+    key: storageKey,
+    fallback: defaultTheme,
+    themes: enableSystem ? THEME_PREFERENCES : THEME_PREFERENCES.filter(theme => theme !== 'system'),
+    query: COLOR_SCHEME_QUERY,
+    attribute: THEME_ATTRIBUTE,
+  });
+
+  return [
+    '(function(c){',
+    'var t=c.fallback;',
+    'try{var s=localStorage.getItem(c.key);if(c.themes.indexOf(s)>-1)t=s;}catch(e){}',
+    "if(t==='system')t=c.themes.indexOf('system')>-1&&window.matchMedia&&matchMedia(c.query).matches?'dark':'light';",
+    "var d=document.documentElement;d.setAttribute(c.attribute,t);d.style.colorScheme=t==='dark'?'dark':'light';",
+    `})(${config.replace(/</g, '\\u003c')})`,
+  ].join('');
+}
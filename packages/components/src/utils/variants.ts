@@ -0,0 +1,44 @@
+import {
+  isResponsiveObject,
+  resolveResponsiveClasses,
+  spacing,
+  type Responsive,
+} from '@boombox/tokens';
+
+export type GapSize = keyof typeof spacing.grid;
+export type ColumnCount = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
+
+// Responsive variant lookup - { base: 'sm', lg: 'lg' } with { sm: 'h-8', lg: 'h-12' } -> 'h-8 lg:h-12'.
+// Every class in `classes` must be safelisted at each screen in the Tailwind preset.
+export function responsiveVariant<K extends string | number>(value: Responsive<K>, classes: Record<K, string>): string {
+  return resolveResponsiveClasses(value, key => {
+    if (!(key in classes)) {
+      throw new Error(`Variant "${key}" not found`);
+    }
+    return classes[key];
+  });
+}
+
+// Split a responsive prop for cva - single values go to the variant, objects become classes.
+// Objects skip the cva default, so `fallback` fills in `base` when the object leaves it out.
+export function splitResponsiveVariant<K extends string | number>(
+  value: Responsive<K> | undefined,
+  classes: Record<K, string>,
+  fallback?: K
+): { variant: K | null | undefined; className: string | undefined } {
+  if (value === undefined || !isResponsiveObject(value)) {
+    return { variant: value as K | undefined, className: undefined };
+  }
+  const withBase = value.base === undefined && fallback !== undefined ? { ...value, base: fallback } : value;
+  return { variant: null, className: responsiveVariant(withBase, classes) };
+}
+
+// gap prop classes from the spacing.grid scale (gap-grid-md)
+export const gapClasses = Object.fromEntries(
+  Object.keys(spacing.grid).map(size => [size, `gap-grid-${size}`])
+) as Record<GapSize, string>;
+
+// columns prop classes (grid-cols-1 to grid-cols-12)
+export const columnClasses = Object.fromEntries(
+  Array.from({ length: 12 }, (_, index) => [index + 1, `grid-cols-${index + 1}`])
+) as Record<ColumnCount, string>;
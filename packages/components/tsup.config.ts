@@ -0,0 +1,15 @@
+import { defineConfig, type Options } from 'tsup';
+
+const shared: Options = {
+  format: ['cjs', 'esm'],
+  dts: true,
+  external: ['react'],
+};
+
+export default defineConfig([
+  // Components and utilities that Server Components can import and call
+  { ...shared, entry: ['src/index.ts'] },
+  // Providers and hooks - esbuild drops module-level directives when bundling, so the
+  // directive is added back as a banner on this entry only
+  { ...shared, entry: ['src/client.ts'], banner: { js: "'use client';" } },
+]);
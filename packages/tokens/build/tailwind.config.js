@@ -1,10 +0,0 @@
-/** @type {import('tailwindcss').Config} */
-module.exports = {
-  content: [],
-  theme: {
-    extend: {
-      // This will be populated by design tokens
-    },
-  },
-  plugins: [],
-}
\ No newline at end of file
@@ -0,0 +1,29 @@
+// Token build - writes generated platform outputs to build/
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  generateAndroidColors,
+  generateAndroidDimens,
+  generateCssVariables,
+  generateFlatJson,
+  generateLess,
+  generatePrintStylesheet,
+  generateScss,
+  generateSwift,
+  toDTCG,
+  tokens,
+} from '../src';
+
+const outDir = join(process.cwd(), 'build');
+
+mkdirSync(join(outDir, 'ios'), { recursive: true });
+mkdirSync(join(outDir, 'android'), { recursive: true });
+writeFileSync(join(outDir, 'css-variables.css'), generateCssVariables());
+writeFileSync(join(outDir, 'print.css'), generatePrintStylesheet());
+writeFileSync(join(outDir, 'tokens.json'), `${JSON.stringify(toDTCG(tokens), null, 2)}\n`);
+writeFileSync(join(outDir, 'tokens.flat.json'), generateFlatJson());
+writeFileSync(join(outDir, 'scss-variables.scss'), generateScss());
+writeFileSync(join(outDir, 'less-variables.less'), generateLess());
+writeFileSync(join(outDir, 'ios', 'BoomboxTokens.swift'), generateSwift());
+writeFileSync(join(outDir, 'android', 'colors.xml'), generateAndroidColors());
+writeFileSync(join(outDir, 'android', 'dimens.xml'), generateAndroidDimens());
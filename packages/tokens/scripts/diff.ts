@@ -0,0 +1,94 @@
+// Token diff - prints a markdown changelog between two token versions
+//
+// Usage: npm run tokens:diff -- <before> [after] [--out CHANGELOG.md] [--fail-on-breaking] [--no-swatches]
+//
+// <before> and [after] are git refs (v0.1.0, main, HEAD~3) or DTCG JSON files
+// (build/tokens.json). [after] defaults to the working tree source.
+import { execFileSync } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { createRequire } from 'module';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { build } from 'tsup';
+import { diffTokens, formatTokenChangelog, toDTCG, tokens, type DTCGGroup } from '../src';
+
+// Token groups exported by releases that predate the combined `tokens` object
+const TOKEN_GROUPS = ['colors', 'typography', 'spacing', 'breakpoints', 'borders', 'shadows', 'zIndex'];
+
+// Run git without a shell - refs come from the command line and CI variables
+function git(args: string[], cwd?: string): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+}
+
+// Resolve a ref to a commit id, so nothing but a commit reaches git archive
+function resolveCommit(ref: string): string {
+  try {
+    return git(['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`]);
+  } catch {
+    throw new Error(`Git ref "${ref}" does not name a commit`);
+  }
+}
+
+// Build the token source at a git ref and serialize it to DTCG
+async function loadRef(ref: string): Promise<DTCGGroup> {
+  const commit = resolveCommit(ref);
+  const root = git(['rev-parse', '--show-toplevel']);
+  const prefix = git(['rev-parse', '--show-prefix']);
+  const dir = mkdtempSync(join(tmpdir(), 'boombox-tokens-'));
+
+  try {
+    const archive = join(dir, 'source.tar');
+    git(['archive', `--output=${archive}`, commit, `${prefix}src`], root);
+    execFileSync('tar', ['-x', '-f', archive, '-C', dir]);
+    await build({
+      entry: { tokens: join(dir, prefix, 'src/index.ts') },
+      outDir: dir,
+      format: ['cjs'],
+      config: false,
+      silent: true,
+    });
+
+    const source = createRequire(__filename)(join(dir, 'tokens.js'));
+    const tree = source.tokens ?? Object.fromEntries(TOKEN_GROUPS.filter(group => group in source).map(group => [group, source[group]]));
+    return toDTCG(tree);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// Read a DTCG file, or build a git ref
+function load(source: string): Promise<DTCGGroup> {
+  return existsSync(source) && source.endsWith('.json')
+    ? Promise.resolve(JSON.parse(readFileSync(source, 'utf8')))
+    : loadRef(source);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => args.includes(name);
+  const outIndex = args.indexOf('--out');
+  const out = outIndex === -1 ? undefined : args[outIndex + 1];
+  const [before, after] = args.filter((arg, index) => !arg.startsWith('--') && (outIndex === -1 || index !== outIndex + 1));
+
+  if (!before) {
+    throw new Error('Usage: tokens:diff <before> [after] [--out file] [--fail-on-breaking] [--no-swatches]');
+  }
+
+  const diff = diffTokens(await load(before), after ? await load(after) : toDTCG(tokens));
+  const changelog = formatTokenChangelog(diff, {
+    title: `Token changes: ${before} -> ${after ?? 'working tree'}`,
+    swatches: !flag('--no-swatches'),
+  });
+
+  if (out) writeFileSync(out, changelog);
+  else process.stdout.write(changelog);
+
+  if (flag('--fail-on-breaking') && diff.breaking.length) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,3 @@
+// Entry for build/tailwind.config.js (@boombox/tokens/tailwind). Tailwind loads presets
+// with require(), so the bundle exports the preset object itself and needs no dist/.
+module.exports = require('../src/platform/web').tailwindPreset;
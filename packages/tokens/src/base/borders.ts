@@ -29,8 +29,11 @@
  */
 
 import { colors } from './colors';
+import { resolveTokenReferences } from '../utils/token-references';
+import { getTokenValue, type TokenNodePath, type TokenValue } from '../utils/token-transformer';
 
-export const borders = {
+// Border tokens as declared - derived values keep their {colors.*} references
+export const borderReferences = {
   // Border width scale - based on Tailwind border-* classes found in codebase
   width: {
     none: '0',           // border-0 - no border
@@ -61,24 +64,24 @@ export const borders = {
   // Border colors - semantic usage based on color tokens and codebase patterns
   colors: {
     // Neutral borders - most common usage
-    default: colors.secondary[200],        // #e2e8f0 - default border color (slate-200)
-    subtle: colors.secondary[100],         // #f1f5f9 - subtle borders (slate-100)
-    muted: colors.secondary[50],           // #f8fafc - very subtle borders (slate-50)
+    default: '{colors.secondary.200}',        // #e2e8f0 - default border color (slate-200)
+    subtle: '{colors.secondary.100}',         // #f1f5f9 - subtle borders (slate-100)
+    muted: '{colors.secondary.50}',           // #f8fafc - very subtle borders (slate-50)
     
     // Interactive borders - focus and active states
-    focus: colors.primary[950],            // #222222 - focus ring color (zinc-950)
-    active: colors.primary[800],           // #2d2d2d - active border states
-    hover: colors.secondary[400],          // #94a3b8 - hover border color (slate-400)
+    focus: '{colors.primary.950}',            // #222222 - focus ring color (zinc-950)
+    active: '{colors.primary.800}',           // #2d2d2d - active border states
+    hover: '{colors.secondary.400}',          // #94a3b8 - hover border color (slate-400)
     
     // Semantic borders - status and feedback
-    success: colors.semantic.success[500], // #10b981 - success borders (emerald-500)
-    error: colors.semantic.error[500],     // #ef4444 - error borders (red-500)
-    warning: colors.semantic.warning[400], // #fbbf24 - warning borders (amber-400)
-    info: colors.semantic.info[500],       // #06b6d4 - info borders (cyan-500)
+    success: '{colors.semantic.success.500}', // #10b981 - success borders (emerald-500)
+    error: '{colors.semantic.error.500}',     // #ef4444 - error borders (red-500)
+    warning: '{colors.semantic.warning.400}', // #fbbf24 - warning borders (amber-400)
+    info: '{colors.semantic.info.500}',       // #06b6d4 - info borders (cyan-500)
     
     // Specialized borders
-    divider: colors.secondary[100],        // #f1f5f9 - section dividers (slate-100)
-    accent: colors.primary[950],           // #222222 - accent borders (zinc-950)
+    divider: '{colors.secondary.100}',        // #f1f5f9 - section dividers (slate-100)
+    accent: '{colors.primary.950}',           // #222222 - accent borders (zinc-950)
     transparent: 'transparent',            // Transparent borders for layout
   },
 
@@ -94,12 +97,12 @@ export const borders = {
     
     // Ring colors - based on ring-* color usage
     colors: {
-      focus: colors.primary[950],            // #222222 - focus ring (zinc-950)
-      error: colors.semantic.error[500],     // #ef4444 - error ring (red-500)
-      success: colors.semantic.success[500], // #10b981 - success ring (emerald-500)
-      warning: colors.semantic.warning[400], // #fbbf24 - warning ring (amber-400)
-      info: colors.semantic.info[500],       // #06b6d4 - info ring (cyan-500)
-      subtle: colors.secondary[100],         // #f1f5f9 - subtle ring (slate-100)
+      focus: '{colors.primary.950}',         // #222222 - focus ring (zinc-950)
+      error: '{colors.semantic.error.500}',  // #ef4444 - error ring (red-500)
+      success: '{colors.semantic.success.500}', // #10b981 - success ring (emerald-500)
+      warning: '{colors.semantic.warning.400}', // #fbbf24 - warning ring (amber-400)
+      info: '{colors.semantic.info.500}',    // #06b6d4 - info ring (cyan-500)
+      subtle: '{colors.secondary.100}',      // #f1f5f9 - subtle ring (slate-100)
     },
     
     // Ring offset - ring-offset-* classes
@@ -115,32 +118,32 @@ export const borders = {
   directional: {
     // Top borders - border-t patterns
     top: {
-      default: `1px solid ${colors.secondary[100]}`,     // border-t border-slate-100
-      thick: `2px solid ${colors.secondary[100]}`,       // border-t-2 border-slate-100
-      accent: `1px solid ${colors.primary[950]}`,        // border-t border-zinc-950
+      default: '1px solid {colors.secondary.100}',     // border-t border-slate-100
+      thick: '2px solid {colors.secondary.100}',       // border-t-2 border-slate-100
+      accent: '1px solid {colors.primary.950}',        // border-t border-zinc-950
     },
     
     // Bottom borders - border-b patterns (most common for dividers)
     bottom: {
-      default: `1px solid ${colors.secondary[100]}`,     // border-b border-slate-100
-      thick: `2px solid ${colors.secondary[100]}`,       // border-b-2 border-slate-100
-      accent: `2px solid ${colors.primary[950]}`,        // border-b-2 border-zinc-950
-      divider: `1px solid ${colors.secondary[100]}`,     // Common divider pattern
+      default: '1px solid {colors.secondary.100}',     // border-b border-slate-100
+      thick: '2px solid {colors.secondary.100}',       // border-b-2 border-slate-100
+      accent: '2px solid {colors.primary.950}',        // border-b-2 border-zinc-950
+      divider: '1px solid {colors.secondary.100}',     // Common divider pattern
     },
     
     // Left borders - border-l patterns (callouts, sidebars)
     left: {
-      default: `1px solid ${colors.secondary[200]}`,     // border-l border-slate-200
-      thick: `4px solid ${colors.semantic.info[500]}`,   // border-l-4 border-blue-400 (callouts)
-      accent: `2px solid ${colors.primary[950]}`,        // border-l-2 border-zinc-950
-      warning: `4px solid ${colors.semantic.warning[400]}`, // border-l-4 border-amber-400
-      error: `4px solid ${colors.semantic.error[500]}`,     // border-l-4 border-red-400
+      default: '1px solid {colors.secondary.200}',     // border-l border-slate-200
+      thick: '4px solid {colors.semantic.info.500}',   // border-l-4 border-blue-400 (callouts)
+      accent: '2px solid {colors.primary.950}',        // border-l-2 border-zinc-950
+      warning: '4px solid {colors.semantic.warning.400}', // border-l-4 border-amber-400
+      error: '4px solid {colors.semantic.error.500}',     // border-l-4 border-red-400
     },
     
     // Right borders - border-r patterns (less common)
     right: {
-      default: `1px solid ${colors.secondary[200]}`,     // border-r border-slate-200
-      divider: `1px solid ${colors.secondary[100]}`,     // border-r border-slate-100
+      default: '1px solid {colors.secondary.200}',     // border-r border-slate-200
+      divider: '1px solid {colors.secondary.100}',     // border-r border-slate-100
     },
   },
 
@@ -151,28 +154,28 @@ export const borders = {
       default: {
         width: '2px',
         style: 'solid',
-        color: colors.secondary[100],         // ring-slate-100
+        color: '{colors.secondary.100}',      // ring-slate-100
         radius: '0.375rem',                   // rounded-md
         focus: {
           width: '2px',
           style: 'solid',
-          color: colors.primary[950],         // focus:ring-zinc-950
+          color: '{colors.primary.950}',      // focus:ring-zinc-950
           outline: 'none',                    // focus:outline-none
         },
       },
       error: {
         width: '2px',
         style: 'solid',
-        color: colors.semantic.error[500],    // ring-red-500
+        color: '{colors.semantic.error.500}', // ring-red-500
         radius: '0.375rem',                   // rounded-md
-        background: colors.semantic.error[100], // bg-red-100
+        background: '{colors.semantic.error.100}', // bg-red-100
       },
       success: {
         width: '2px',
         style: 'solid',
-        color: colors.semantic.success[200], // ring-emerald-200
+        color: '{colors.semantic.success.200}', // ring-emerald-200
         radius: '0.375rem',                  // rounded-md
-        background: colors.semantic.success[100], // bg-emerald-100
+        background: '{colors.semantic.success.100}', // bg-emerald-100
       },
     },
     
@@ -181,7 +184,7 @@ export const borders = {
       default: {
         width: '1px',
         style: 'solid',
-        color: colors.secondary[100],         // border-slate-100
+        color: '{colors.secondary.100}',      // border-slate-100
         radius: '0.375rem',                   // rounded-md
       },
       elevated: {
@@ -194,10 +197,10 @@ export const borders = {
       interactive: {
         width: '2px',
         style: 'solid',
-        color: colors.secondary[100],         // ring-slate-100
+        color: '{colors.secondary.100}',      // ring-slate-100
         radius: '0.375rem',                   // rounded-md
         hover: {
-          color: colors.primary[950],         // hover:ring-zinc-950
+          color: '{colors.primary.950}',      // hover:ring-zinc-950
         },
       },
     },
@@ -213,13 +216,13 @@ export const borders = {
       secondary: {
         width: '1px',
         style: 'solid',
-        color: colors.secondary[200],         // border-slate-200
+        color: '{colors.secondary.200}',      // border-slate-200
         radius: '0.375rem',                   // rounded-md
       },
       outline: {
         width: '1px',
         style: 'solid',
-        color: colors.primary[950],           // border-zinc-950
+        color: '{colors.primary.950}',        // border-zinc-950
         radius: '0.375rem',                   // rounded-md
       },
       ghost: {
@@ -242,7 +245,7 @@ export const borders = {
       content: {
         width: '1px',
         style: 'solid',
-        color: colors.secondary[100],         // border-slate-100
+        color: '{colors.secondary.100}',      // border-slate-100
         radius: '0.375rem',                   // rounded-md
       },
     },
@@ -252,19 +255,19 @@ export const borders = {
       header: {
         width: '2px',
         style: 'solid',
-        color: colors.secondary[100],         // border-b-2 border-slate-100
+        color: '{colors.secondary.100}',      // border-b-2 border-slate-100
         direction: 'bottom',
       },
       row: {
         width: '1px',
         style: 'solid',
-        color: colors.secondary[100],         // border-b border-slate-100
+        color: '{colors.secondary.100}',      // border-b border-slate-100
         direction: 'bottom',
       },
       cell: {
         width: '1px',
         style: 'solid',
-        color: colors.secondary[200],         // border-slate-200
+        color: '{colors.secondary.200}',      // border-slate-200
       },
     },
     
@@ -273,14 +276,14 @@ export const borders = {
       default: {
         width: '2px',
         style: 'solid',
-        color: colors.primary[950],           // border-zinc-950
+        color: '{colors.primary.950}',        // border-zinc-950
         transparent: 'transparent',           // border-t-transparent
         radius: '9999px',                     // rounded-full
       },
       light: {
         width: '2px',
         style: 'solid',
-        color: colors.primary[50],            // border-white
+        color: '{colors.primary.50}',         // border-white
         transparent: 'transparent',           // border-t-transparent
         radius: '9999px',                     // rounded-full
       },
@@ -291,41 +294,41 @@ export const borders = {
   states: {
     // Focus states - most common interactive pattern
     focus: {
-      ring: `2px solid ${colors.primary[950]}`,         // focus:ring-2 focus:ring-zinc-950
+      ring: '2px solid {colors.primary.950}',           // focus:ring-2 focus:ring-zinc-950
       outline: 'none',                                  // focus:outline-none
-      background: colors.primary[50],                   // focus:bg-white
+      background: '{colors.primary.50}',                // focus:bg-white
     },
     
     // Hover states - subtle interactive feedback
     hover: {
-      border: `1px solid ${colors.secondary[400]}`,     // hover:border-slate-400
-      ring: `2px solid ${colors.secondary[200]}`,       // hover:ring-slate-200
+      border: '1px solid {colors.secondary.400}',       // hover:border-slate-400
+      ring: '2px solid {colors.secondary.200}',         // hover:ring-slate-200
     },
     
     // Active states - pressed/selected feedback
     active: {
-      border: `2px solid ${colors.primary[950]}`,       // active:border-zinc-950
-      ring: `2px solid ${colors.primary[950]}`,         // active:ring-zinc-950
+      border: '2px solid {colors.primary.950}',         // active:border-zinc-950
+      ring: '2px solid {colors.primary.950}',           // active:ring-zinc-950
     },
     
     // Disabled states - reduced visual prominence
     disabled: {
-      border: `1px solid ${colors.secondary[200]}`,     // disabled:border-slate-200
+      border: '1px solid {colors.secondary.200}',       // disabled:border-slate-200
       opacity: '0.5',                                   // disabled:opacity-50
     },
     
     // Error states - validation feedback
     error: {
-      border: `2px solid ${colors.semantic.error[500]}`, // border-red-500
-      ring: `2px solid ${colors.semantic.error[500]}`,   // ring-red-500
-      background: colors.semantic.error[100],            // bg-red-100
+      border: '2px solid {colors.semantic.error.500}',   // border-red-500
+      ring: '2px solid {colors.semantic.error.500}',     // ring-red-500
+      background: '{colors.semantic.error.100}',         // bg-red-100
     },
     
     // Success states - positive feedback
     success: {
-      border: `2px solid ${colors.semantic.success[500]}`, // border-emerald-500
-      ring: `2px solid ${colors.semantic.success[200]}`,   // ring-emerald-200
-      background: colors.semantic.success[100],            // bg-emerald-100
+      border: '2px solid {colors.semantic.success.500}',   // border-emerald-500
+      ring: '2px solid {colors.semantic.success.200}',     // ring-emerald-200
+      background: '{colors.semantic.success.100}',         // bg-emerald-100
     },
   },
 
@@ -333,29 +336,33 @@ export const borders = {
   utilities: {
     // Complete border style strings for direct CSS usage
     none: 'none',
-    default: `1px solid ${colors.secondary[200]}`,       // Most common border
-    subtle: `1px solid ${colors.secondary[100]}`,        // Subtle border
-    thick: `2px solid ${colors.secondary[200]}`,         // Thick border
-    accent: `2px solid ${colors.primary[950]}`,          // Accent border
+    default: '1px solid {colors.secondary.200}',         // Most common border
+    subtle: '1px solid {colors.secondary.100}',          // Subtle border
+    thick: '2px solid {colors.secondary.200}',           // Thick border
+    accent: '2px solid {colors.primary.950}',            // Accent border
     
     // Focus ring utility
-    focusRing: `0 0 0 2px ${colors.primary[950]}`,       // Custom focus ring
+    focusRing: '0 0 0 2px {colors.primary.950}',         // Custom focus ring
     
     // Divider utilities
-    dividerHorizontal: `1px solid ${colors.secondary[100]}`, // Horizontal divider
-    dividerVertical: `1px solid ${colors.secondary[200]}`,   // Vertical divider
+    dividerHorizontal: '1px solid {colors.secondary.100}',   // Horizontal divider
+    dividerVertical: '1px solid {colors.secondary.200}',     // Vertical divider
     
     // Callout borders
-    calloutInfo: `4px solid ${colors.semantic.info[500]}`,     // Left info callout
-    calloutWarning: `4px solid ${colors.semantic.warning[400]}`, // Left warning callout
-    calloutError: `4px solid ${colors.semantic.error[500]}`,     // Left error callout
-    calloutSuccess: `4px solid ${colors.semantic.success[500]}`, // Left success callout
+    calloutInfo: '4px solid {colors.semantic.info.500}',       // Left info callout
+    calloutWarning: '4px solid {colors.semantic.warning.400}',   // Left warning callout
+    calloutError: '4px solid {colors.semantic.error.500}',       // Left error callout
+    calloutSuccess: '4px solid {colors.semantic.success.500}',   // Left success callout
   },
 
 } as const;
 
+// Border tokens with references resolved against the color tokens
+export const borders = resolveTokenReferences(borderReferences, { colors });
+
 // Type exports for TypeScript usage
 export type BorderTokens = typeof borders;
+export type BorderPath = TokenNodePath<BorderTokens>;
 export type BorderWidth = typeof borders.width;
 export type BorderStyle = typeof borders.style;
 export type BorderRadius = typeof borders.radius;
@@ -366,20 +373,9 @@ export type BorderComponents = typeof borders.components;
 export type BorderStates = typeof borders.states;
 export type BorderUtilities = typeof borders.utilities;
 
-// Helper function to get border value by path
-export function getBorder(path: string): any {
-  const keys = path.split('.');
-  let value: any = borders;
-  
-  for (const key of keys) {
-    if (value && typeof value === 'object' && key in value) {
-      value = value[key];
-    } else {
-      throw new Error(`Border path "${path}" not found`);
-    }
-  }
-  
-  return value;
+// Helper function to get border group or value by path
+export function getBorder<P extends BorderPath>(path: P): TokenValue<BorderTokens, P> {
+  return getTokenValue(borders, path, 'Border');
 }
 
 // Utility functions for common border patterns
@@ -33,6 +33,8 @@
  * - Admin: px-4 sm:px-6 lg:px-8 (admin dashboard responsive padding)
  */
 
+import { getTokenValue, type TokenNodePath, type TokenValue } from '../utils/token-transformer';
+
 export const breakpoints = {
   // Core screen breakpoints - based on Tailwind CSS default breakpoint system
   // These are the fundamental breakpoints used throughout the application
@@ -44,6 +46,17 @@ export const breakpoints = {
     '2xl': '1536px',  // 2X large devices (larger desktops) - 1536px and up
   },
 
+  // Container query breakpoints - widths of the enclosing container, not the viewport.
+  // Cards and quote widgets use these so they adapt when embedded in sidebars and panels.
+  containerQueries: {
+    xs: '20rem',      // 320px - narrow sidebars, quote widget minimum
+    sm: '24rem',      // 384px - sidebar cards
+    md: '28rem',      // 448px - modal and drawer bodies
+    lg: '32rem',      // 512px - two-column card content
+    xl: '36rem',      // 576px - wide panels
+    '2xl': '42rem',   // 672px - main column content
+  },
+
   // Container max-widths at each breakpoint - responsive container system
   // Based on max-w-* patterns found in codebase
   containers: {
@@ -424,7 +437,9 @@ export const breakpoints = {
 
 // Type exports for TypeScript usage
 export type BreakpointTokens = typeof breakpoints;
+export type BreakpointPath = TokenNodePath<BreakpointTokens>;
 export type Screens = typeof breakpoints.screens;
+export type ContainerQueries = typeof breakpoints.containerQueries;
 export type Containers = typeof breakpoints.containers;
 export type GridBreakpoints = typeof breakpoints.grid;
 export type TypographyBreakpoints = typeof breakpoints.typography;
@@ -434,20 +449,9 @@ export type NavigationBreakpoints = typeof breakpoints.navigation;
 export type ComponentBreakpoints = typeof breakpoints.components;
 export type BreakpointUtilities = typeof breakpoints.utilities;
 
-// Helper function to get breakpoint value by path
-export function getBreakpoint(path: string): any {
-  const keys = path.split('.');
-  let value: any = breakpoints;
-  
-  for (const key of keys) {
-    if (value && typeof value === 'object' && key in value) {
-      value = value[key];
-    } else {
-      throw new Error(`Breakpoint path "${path}" not found`);
-    }
-  }
-  
-  return value;
+// Helper function to get breakpoint group or value by path
+export function getBreakpoint<P extends BreakpointPath>(path: P): TokenValue<BreakpointTokens, P> {
+  return getTokenValue(breakpoints, path, 'Breakpoint');
 }
 
 // Utility functions for common breakpoint patterns
@@ -491,6 +495,20 @@ export const breakpointUtils = {
     const size = breakpoints.screens[breakpoint];
     return `@media (${type}-width: ${size})`;
   },
+
+  // Build container query string - names target an enclosing named container,
+  // e.g. buildContainerQuery('sm', 'card') -> '@container card (min-width: 24rem)'
+  buildContainerQuery: (
+    size: keyof typeof breakpoints.containerQueries,
+    name?: string,
+    type: 'min' | 'max' = 'min'
+  ) => {
+    if (!(size in breakpoints.containerQueries)) {
+      throw new Error(`Container breakpoint "${size}" not found`);
+    }
+    const width = breakpoints.containerQueries[size];
+    return `@container ${name ? `${name} ` : ''}(${type}-width: ${width})`;
+  },
   
   // Get responsive typography
   getResponsiveTypography: (
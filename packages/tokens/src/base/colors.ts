@@ -19,13 +19,24 @@
  * - Semantic: Status indicators (success, error, warning, info)
  */
 
+import { getTokenValue, type TokenPath, type TokenValue } from '../utils/token-transformer';
+import { generateColorScale } from '../utils/color-scales';
+
 export const colors = {
+  // Base colors - pure white and black for page surfaces and overlays
+  base: {
+    white: '#ffffff',  // Page and card surfaces (bg-white)
+    black: '#000000',  // Overlay backdrops and deepest dark surfaces (bg-black)
+  },
+
   // Primary brand colors - zinc-950 is the main brand color used for primary actions and text
   primary: {
     50: '#fafafa',   // zinc-50 - Light backgrounds
     100: '#f4f4f5',  // zinc-100 - Card backgrounds  
+    300: '#d4d4d8',  // zinc-300 - Secondary text on dark surfaces
     400: '#a1a1aa',  // zinc-400 - Placeholder text
     500: '#71717a',  // zinc-500 - Secondary text
+    600: '#52525b',  // zinc-600 - Muted text on light surfaces
     700: '#404040',  // Darker gray for active states
     800: '#2d2d2d',  // Slightly lighter than brand for hover states
     950: '#222222',  // Main brand color
@@ -68,6 +79,7 @@ export const colors = {
       200: '#fde68a',  // amber-200 - Warning borders
       400: '#fbbf24',  // amber-400 - Warning borders and icons
       500: '#f59e0b',  // amber-500 - Warning text
+      700: '#b45309',  // amber-700 - Warning text on light backgrounds
     },
 
     // Info states - cyan variants for informational feedback
@@ -76,34 +88,35 @@ export const colors = {
       200: '#a5f3fc',  // cyan-200 - Info borders
       500: '#06b6d4',  // cyan-500 - Info icons and actions
       600: '#0891b2',  // cyan-600 - Info buttons, primary actions
+      700: '#0e7490',  // cyan-700 - Links, info text and fills under white text
     },
   },
 
 } as const;
 
+// Complete 50-950 ramps generated in OKLCH around the hand-picked steps above
+// Hand-picked values are kept exactly - see utils/color-scales
+export const colorScales = {
+  primary: generateColorScale(colors.primary).scale,
+  secondary: generateColorScale(colors.secondary).scale,
+  semantic: {
+    success: generateColorScale(colors.semantic.success).scale,
+    error: generateColorScale(colors.semantic.error).scale,
+    warning: generateColorScale(colors.semantic.warning).scale,
+    info: generateColorScale(colors.semantic.info).scale,
+  },
+};
+
 // Type exports for TypeScript usage
 export type ColorTokens = typeof colors;
+export type ColorPath = TokenPath<ColorTokens>;
 export type ColorScale = typeof colors.primary;
 export type SemanticColors = typeof colors.semantic;
+export type ColorScales = typeof colorScales;
 
 // Helper function to get color value by path
-export function getColor(path: string): string {
-  const keys = path.split('.');
-  let value: any = colors;
-  
-  for (const key of keys) {
-    if (value && typeof value === 'object' && key in value) {
-      value = value[key];
-    } else {
-      throw new Error(`Color path "${path}" not found`);
-    }
-  }
-  
-  if (typeof value !== 'string') {
-    throw new Error(`Color path "${path}" does not resolve to a string value`);
-  }
-  
-  return value;
+export function getColor<P extends ColorPath>(path: P): TokenValue<ColorTokens, P> {
+  return getTokenValue(colors, path, 'Color');
 }
 
 // Export default colors object
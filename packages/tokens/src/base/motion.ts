@@ -0,0 +1,136 @@
+/**
+ * Boombox Design System - Motion Tokens
+ *
+ * Durations, easings and named transitions for interactive and overlay motion.
+ *
+ * Sources:
+ * - boombox-10.0 relies on Tailwind's default transition utilities (transition-colors,
+ *   150ms cubic-bezier(0.4, 0, 0.2, 1)) - kept here as duration.normal and easing.standard
+ * - shadows.utilities.transition (box-shadow 0.15s ease-in-out) - now built from this scale
+ *
+ * Structure:
+ * - duration: speed scale from fast micro-interactions to looping placeholders
+ * - easing: standard for state changes, enter/exit for elements appearing and leaving
+ * - transition: complete `transition` values for named interactions, referencing the scales
+ * - animation: complete `animation` values, keyframes live in `motionKeyframes`
+ *
+ * Reduced motion:
+ * - `reducedMotion` is the same tree with every duration collapsed to 0ms
+ * - the generated stylesheet applies it under `@media (prefers-reduced-motion: reduce)`
+ */
+
+import { getTokenValue, type TokenNodePath, type TokenValue } from '../utils/token-transformer';
+import { resolveTokenReferences } from '../utils/token-references';
+
+// Media query matching users who asked the OS for less motion
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// Motion source with {motion.*} references kept
+export const motionReferences = {
+  // Duration scale
+  duration: {
+    fast: '100ms',                // Hover and press feedback, dropdown exit
+    normal: '150ms',              // Color and shadow changes (Tailwind default)
+    moderate: '200ms',            // Dropdown and overlay enter
+    slow: '300ms',                // Drawers, toast slide
+    slower: '500ms',              // Large surfaces, page-level transitions
+    loop: '1500ms',               // One cycle of a looping animation (skeleton shimmer)
+  },
+
+  // Easing curves
+  easing: {
+    linear: 'linear',                                   // Looping animations
+    standard: 'cubic-bezier(0.4, 0, 0.2, 1)',           // State changes (Tailwind default)
+    inOut: 'cubic-bezier(0.42, 0, 0.58, 1)',            // Symmetric changes (CSS ease-in-out)
+    enter: 'cubic-bezier(0, 0, 0.2, 1)',                // Elements appearing - decelerate
+    exit: 'cubic-bezier(0.4, 0, 1, 1)',                 // Elements leaving - accelerate
+    emphasized: 'cubic-bezier(0.2, 0, 0, 1)',           // Large movements that should settle softly
+  },
+
+  // Named transitions - complete `transition` values
+  transition: {
+    colors: 'color {motion.duration.normal} {motion.easing.standard}, ' +
+      'background-color {motion.duration.normal} {motion.easing.standard}, ' +
+      'border-color {motion.duration.normal} {motion.easing.standard}',
+    overlayEnter: 'opacity {motion.duration.moderate} {motion.easing.enter}',
+    overlayExit: 'opacity {motion.duration.fast} {motion.easing.exit}',
+    dropdownEnter: 'opacity {motion.duration.moderate} {motion.easing.enter}, ' +
+      'transform {motion.duration.moderate} {motion.easing.enter}',
+    dropdownExit: 'opacity {motion.duration.fast} {motion.easing.exit}, ' +
+      'transform {motion.duration.fast} {motion.easing.exit}',
+    toastSlide: 'transform {motion.duration.slow} {motion.easing.emphasized}, ' +
+      'opacity {motion.duration.slow} {motion.easing.emphasized}',
+  },
+
+  // Named animations - complete `animation` values
+  animation: {
+    shimmer: 'shimmer {motion.duration.loop} {motion.easing.linear} infinite',
+  },
+} as const;
+
+// Keyframes used by motion.animation - kept out of the token tree, they are not single values
+export const motionKeyframes = {
+  shimmer: {
+    '0%': { backgroundPosition: '-200% 0' },
+    '100%': { backgroundPosition: '200% 0' },
+  },
+} as const;
+
+// Motion tokens with references resolved
+export const motion = resolveTokenReferences(motionReferences, { motion: motionReferences });
+
+// Same source with every duration collapsed to zero
+export const reducedMotionReferences = {
+  ...motionReferences,
+  duration: Object.fromEntries(
+    Object.keys(motionReferences.duration).map(speed => [speed, '0ms'])
+  ) as Record<keyof typeof motionReferences.duration, '0ms'>,
+} as const;
+
+// Motion tokens for prefers-reduced-motion
+export const reducedMotion = resolveTokenReferences(reducedMotionReferences, { motion: reducedMotionReferences });
+
+// Type exports for TypeScript usage
+export type MotionTokens = typeof motion;
+export type MotionPath = TokenNodePath<MotionTokens>;
+export type MotionDuration = keyof typeof motion.duration;
+export type MotionEasing = keyof typeof motion.easing;
+export type MotionTransition = keyof typeof motion.transition;
+export type MotionAnimation = keyof typeof motion.animation;
+
+// Helper function to get motion group or value by path
+export function getMotion<P extends MotionPath>(path: P): TokenValue<MotionTokens, P> {
+  return getTokenValue(motion, path, 'Motion');
+}
+
+// Utility functions for common motion patterns
+export const motionUtils = {
+  // Get a duration, collapsed to zero when motion is reduced
+  getDuration: (speed: MotionDuration, reduced: boolean = false) => {
+    return (reduced ? reducedMotion : motion).duration[speed];
+  },
+
+  // Get a duration in milliseconds - for timers waiting on a transition to finish
+  getDurationMs: (speed: MotionDuration, reduced: boolean = false) => {
+    return parseFloat(motionUtils.getDuration(speed, reduced));
+  },
+
+  // Get a named transition
+  getTransition: (name: MotionTransition, reduced: boolean = false) => {
+    return (reduced ? reducedMotion : motion).transition[name];
+  },
+
+  // Build a transition for custom properties, e.g. buildTransition(['opacity', 'transform'], 'slow', 'enter')
+  buildTransition: (
+    properties: string | readonly string[],
+    speed: MotionDuration = 'normal',
+    easing: MotionEasing = 'standard'
+  ) => {
+    return (typeof properties === 'string' ? [properties] : properties)
+      .map(property => `${property} ${motion.duration[speed]} ${motion.easing[easing]}`)
+      .join(', ');
+  },
+} as const;
+
+// Export default motion object
+export default motion;
@@ -35,8 +35,13 @@
  */
 
 import { colors } from './colors';
+import { motionReferences } from './motion';
+import { withAlpha } from '../utils/color';
+import { resolveTokenReferences } from '../utils/token-references';
+import { getTokenValue, type TokenNodePath, type TokenValue } from '../utils/token-transformer';
 
-export const shadows = {
+// Shadow tokens as declared - derived values keep their {colors.*} and {motion.*} references
+export const shadowReferences = {
   // Elevation scale - visual hierarchy through shadow depth
   // Based on Tailwind CSS default shadow system + custom shadow usage
   elevation: {
@@ -61,14 +66,14 @@ export const shadows = {
     strong: 'rgb(0 0 0 / 0.25)',                           // Strong shadow color (2xl shadows)
     
     // Colored shadows for branded elements
-    primary: `rgb(${colors.primary[950].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`, // Primary color shadow
-    secondary: `rgb(${colors.secondary[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`, // Secondary color shadow
+    primary: '{colors.primary.950 / 0.1}', // Primary color shadow
+    secondary: '{colors.secondary.500 / 0.1}', // Secondary color shadow
     
     // Semantic colored shadows
-    success: `rgb(${colors.semantic.success[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.2)`, // Success shadow
-    error: `rgb(${colors.semantic.error[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.2)`, // Error shadow
-    warning: `rgb(${colors.semantic.warning[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.2)`, // Warning shadow
-    info: `rgb(${colors.semantic.info[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.2)`, // Info shadow
+    success: '{colors.semantic.success.500 / 0.2}', // Success shadow
+    error: '{colors.semantic.error.500 / 0.2}', // Error shadow
+    warning: '{colors.semantic.warning.500 / 0.2}', // Warning shadow
+    info: '{colors.semantic.info.500 / 0.2}', // Info shadow
     
     // Email template shadows (from email.ts analysis)
     email: {
@@ -89,9 +94,9 @@ export const shadows = {
     
     // Focus states - focus ring shadows
     focus: {
-      default: `0 0 0 3px rgb(${colors.primary[950].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`, // Primary focus ring
-      error: `0 0 0 3px rgb(${colors.semantic.error[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`, // Error focus ring
-      success: `0 0 0 3px rgb(${colors.semantic.success[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`, // Success focus ring
+      default: '0 0 0 3px {colors.primary.950 / 0.1}', // Primary focus ring
+      error: '0 0 0 3px {colors.semantic.error.500 / 0.1}', // Error focus ring
+      success: '0 0 0 3px {colors.semantic.success.500 / 0.1}', // Success focus ring
     },
     
     // Active states - pressed/active shadows
@@ -112,30 +117,30 @@ export const shadows = {
   semantic: {
     // Success shadows
     success: {
-      subtle: `0 1px 3px 0 rgb(${colors.semantic.success[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
-      moderate: `0 4px 6px -1px rgb(${colors.semantic.success[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
-      strong: `0 10px 15px -3px rgb(${colors.semantic.success[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.2)`,
+      subtle: '0 1px 3px 0 {colors.semantic.success.500 / 0.1}',
+      moderate: '0 4px 6px -1px {colors.semantic.success.500 / 0.1}',
+      strong: '0 10px 15px -3px {colors.semantic.success.500 / 0.2}',
     },
     
     // Error shadows
     error: {
-      subtle: `0 1px 3px 0 rgb(${colors.semantic.error[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
-      moderate: `0 4px 6px -1px rgb(${colors.semantic.error[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
-      strong: `0 10px 15px -3px rgb(${colors.semantic.error[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.2)`,
+      subtle: '0 1px 3px 0 {colors.semantic.error.500 / 0.1}',
+      moderate: '0 4px 6px -1px {colors.semantic.error.500 / 0.1}',
+      strong: '0 10px 15px -3px {colors.semantic.error.500 / 0.2}',
     },
     
     // Warning shadows
     warning: {
-      subtle: `0 1px 3px 0 rgb(${colors.semantic.warning[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
-      moderate: `0 4px 6px -1px rgb(${colors.semantic.warning[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
-      strong: `0 10px 15px -3px rgb(${colors.semantic.warning[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.2)`,
+      subtle: '0 1px 3px 0 {colors.semantic.warning.500 / 0.1}',
+      moderate: '0 4px 6px -1px {colors.semantic.warning.500 / 0.1}',
+      strong: '0 10px 15px -3px {colors.semantic.warning.500 / 0.2}',
     },
     
     // Info shadows
     info: {
-      subtle: `0 1px 3px 0 rgb(${colors.semantic.info[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
-      moderate: `0 4px 6px -1px rgb(${colors.semantic.info[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
-      strong: `0 10px 15px -3px rgb(${colors.semantic.info[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.2)`,
+      subtle: '0 1px 3px 0 {colors.semantic.info.500 / 0.1}',
+      moderate: '0 4px 6px -1px {colors.semantic.info.500 / 0.1}',
+      strong: '0 10px 15px -3px {colors.semantic.info.500 / 0.2}',
     },
   },
 
@@ -223,10 +228,10 @@ export const shadows = {
       input: 'none',
       
       // Input focus - ring shadow
-      inputFocus: `0 0 0 2px rgb(${colors.primary[950].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
+      inputFocus: '0 0 0 2px {colors.primary.950 / 0.1}',
       
       // Input error - ring shadow
-      inputError: `0 0 0 2px rgb(${colors.semantic.error[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
+      inputError: '0 0 0 2px {colors.semantic.error.500 / 0.1}',
       
       // Form containers - shadow-custom-shadow pattern
       container: '0px 6px 20px 0px rgba(0, 0, 0, 0.2)',
@@ -257,11 +262,11 @@ export const shadows = {
     
     // Glow effects - colored shadow glows
     glow: {
-      primary: `0 0 20px rgb(${colors.primary[950].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.3)`,
-      success: `0 0 20px rgb(${colors.semantic.success[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.3)`,
-      error: `0 0 20px rgb(${colors.semantic.error[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.3)`,
-      warning: `0 0 20px rgb(${colors.semantic.warning[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.3)`,
-      info: `0 0 20px rgb(${colors.semantic.info[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.3)`,
+      primary: '0 0 20px {colors.primary.950 / 0.3}',
+      success: '0 0 20px {colors.semantic.success.500 / 0.3}',
+      error: '0 0 20px {colors.semantic.error.500 / 0.3}',
+      warning: '0 0 20px {colors.semantic.warning.500 / 0.3}',
+      info: '0 0 20px {colors.semantic.info.500 / 0.3}',
     },
     
     // Multiple shadows - layered shadow effects
@@ -292,19 +297,23 @@ export const shadows = {
     custom: '0px 6px 20px 0px rgba(0, 0, 0, 0.2)',
     
     // Transition utilities
-    transition: 'box-shadow 0.15s ease-in-out',            // Shadow transition
-    transitionAll: 'all 0.15s ease-in-out',               // All properties transition
+    transition: 'box-shadow {motion.duration.normal} {motion.easing.inOut}',   // Shadow transition
+    transitionAll: 'all {motion.duration.normal} {motion.easing.inOut}',       // All properties transition
     
     // Ring utilities (focus rings)
-    ring: `0 0 0 2px rgb(${colors.primary[950].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
-    ringError: `0 0 0 2px rgb(${colors.semantic.error[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
-    ringSuccess: `0 0 0 2px rgb(${colors.semantic.success[500].replace('#', '').match(/.{2}/g)?.map(hex => parseInt(hex, 16)).join(' ')} / 0.1)`,
+    ring: '0 0 0 2px {colors.primary.950 / 0.1}',
+    ringError: '0 0 0 2px {colors.semantic.error.500 / 0.1}',
+    ringSuccess: '0 0 0 2px {colors.semantic.success.500 / 0.1}',
   },
 
 } as const;
 
+// Shadow tokens with references resolved against the color and motion tokens
+export const shadows = resolveTokenReferences(shadowReferences, { colors, motion: motionReferences });
+
 // Type exports for TypeScript usage
 export type ShadowTokens = typeof shadows;
+export type ShadowPath = TokenNodePath<ShadowTokens>;
 export type ElevationShadows = typeof shadows.elevation;
 export type ShadowColors = typeof shadows.colors;
 export type InteractiveShadows = typeof shadows.interactive;
@@ -313,20 +322,9 @@ export type ComponentShadows = typeof shadows.components;
 export type SpecialShadows = typeof shadows.special;
 export type ShadowUtilities = typeof shadows.utilities;
 
-// Helper function to get shadow value by path
-export function getShadow(path: string): any {
-  const keys = path.split('.');
-  let value: any = shadows;
-  
-  for (const key of keys) {
-    if (value && typeof value === 'object' && key in value) {
-      value = value[key];
-    } else {
-      throw new Error(`Shadow path "${path}" not found`);
-    }
-  }
-  
-  return value;
+// Helper function to get shadow group or value by path
+export function getShadow<P extends ShadowPath>(path: P): TokenValue<ShadowTokens, P> {
+  return getTokenValue(shadows, path, 'Shadow');
 }
 
 // Utility functions for common shadow patterns
@@ -365,7 +363,7 @@ export const shadowUtils = {
     y?: number;
     blur?: number;
     spread?: number;
-    color?: string;
+    color?: string;      // Any hex, rgb(), hsl() or oklch() color
     opacity?: number;
   }) => {
     const {
@@ -373,11 +371,11 @@ export const shadowUtils = {
       y = 4,
       blur = 6,
       spread = -1,
-      color = '0 0 0',
+      color = colors.base.black,
       opacity = 0.1
     } = options;
     
-    return `${x}px ${y}px ${blur}px ${spread}px rgb(${color} / ${opacity})`;
+    return `${x}px ${y}px ${blur}px ${spread}px ${withAlpha(color, opacity)}`;
   },
   
   // Get focus ring shadow
@@ -26,6 +26,8 @@
  * - Inline: space-x-2, space-x-3, space-x-4 (horizontal element spacing)
  */
 
+import { getTokenValue, type TokenPath, type TokenValue } from '../utils/token-transformer';
+
 export const spacing = {
   // Component spacing - internal padding within UI elements
   // Used for: buttons, cards, form inputs, badges, chips
@@ -144,6 +146,7 @@ export const spacing = {
 
 // Type exports for TypeScript usage
 export type SpacingTokens = typeof spacing;
+export type SpacingPath = TokenPath<SpacingTokens>;
 export type ComponentSpacing = typeof spacing.component;
 export type LayoutSpacing = typeof spacing.layout;
 export type GridSpacing = typeof spacing.grid;
@@ -153,23 +156,8 @@ export type ContainerSpacing = typeof spacing.container;
 export type ResponsiveSpacing = typeof spacing.responsive;
 
 // Helper function to get spacing value by path
-export function getSpacing(path: string): string {
-  const keys = path.split('.');
-  let value: any = spacing;
-  
-  for (const key of keys) {
-    if (value && typeof value === 'object' && key in value) {
-      value = value[key];
-    } else {
-      throw new Error(`Spacing path "${path}" not found`);
-    }
-  }
-  
-  if (typeof value !== 'string') {
-    throw new Error(`Spacing path "${path}" does not resolve to a string value`);
-  }
-  
-  return value;
+export function getSpacing<P extends SpacingPath>(path: P): TokenValue<SpacingTokens, P> {
+  return getTokenValue(spacing, path, 'Spacing');
 }
 
 // Utility functions for common spacing patterns
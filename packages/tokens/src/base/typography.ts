@@ -28,9 +28,62 @@
  * - Line heights: leading-5, leading-relaxed, leading-tight
  * - Letter spacing: tracking-tight (admin dashboard)
  * - Color usage: zinc-950 (primary), zinc-400 (muted), semantic colors for states
+ *
+ * Fluid type:
+ * - `fluid` sizes scale linearly between the mobile and desktop sizes of
+ *   breakpoints.typography using clamp(), from the sm to the xl screen
+ * - the preferred value mixes rem and vw so browser zoom still scales text
  */
 
 import { colors } from './colors';
+import { breakpoints } from './breakpoints';
+import { getTokenValue, type TokenNodePath, type TokenValue } from '../utils/token-transformer';
+
+export type FluidViewport = keyof typeof breakpoints.screens | `${number}px`;
+
+export interface FluidSizeOptions {
+  min: string;                  // Size at and below minViewport (rem or px)
+  max: string;                  // Size at and above maxViewport (rem or px)
+  minViewport?: FluidViewport;  // Screen key or px width, defaults to sm
+  maxViewport?: FluidViewport;  // Screen key or px width, defaults to xl
+  rootFontSize?: number;        // px per rem, defaults to 16
+}
+
+// Convert a rem or px length to px
+function toPixels(value: string, rootFontSize: number): number {
+  const match = /^(\d*\.?\d+)(px|rem)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Fluid size "${value}" must be in px or rem`);
+  }
+  return match[2] === 'rem' ? Number(match[1]) * rootFontSize : Number(match[1]);
+}
+
+const round = (value: number) => Number(value.toFixed(4));
+
+// Build a clamp() that scales linearly from min at minViewport to max at maxViewport
+export function fluidClamp(options: FluidSizeOptions): string {
+  const { min, max, minViewport = 'sm', maxViewport = 'xl', rootFontSize = 16 } = options;
+  const viewport = (value: FluidViewport) =>
+    toPixels(value in breakpoints.screens ? breakpoints.screens[value as keyof typeof breakpoints.screens] : value, rootFontSize);
+
+  const [minSize, maxSize] = [toPixels(min, rootFontSize), toPixels(max, rootFontSize)];
+  const [minWidth, maxWidth] = [viewport(minViewport), viewport(maxViewport)];
+  if (minWidth >= maxWidth) {
+    throw new Error(`Fluid viewport "${minViewport}" must be narrower than "${maxViewport}"`);
+  }
+
+  const slope = (maxSize - minSize) / (maxWidth - minWidth);
+  const intercept = (minSize - slope * minWidth) / rootFontSize;
+  const [lower, upper] = [Math.min(minSize, maxSize), Math.max(minSize, maxSize)].map(size => round(size / rootFontSize));
+  const sign = intercept < 0 ? '-' : '+';
+
+  return `clamp(${lower}rem, ${round(slope * 100)}vw ${sign} ${round(Math.abs(intercept))}rem, ${upper}rem)`;
+}
+
+// Fluid size from a { base, sm } breakpoint scale
+function fluidFontSize(scale: { base: string; sm: string }): string {
+  return fluidClamp({ min: scale.base, max: scale.sm });
+}
 
 export const typography = {
   // Font family stack - based on Next.js Google Fonts configuration
@@ -334,6 +387,16 @@ export const typography = {
     },
   },
 
+  // Fluid sizes - replace stepped text-5xl sm:text-6xl jumps with one clamp() value
+  // [fontSize, { lineHeight }] tuples like fontSize, line heights are unitless so they follow the size
+  fluid: {
+    hero: [fluidFontSize(breakpoints.typography.headings.hero), { lineHeight: '1' }],                 // 48px -> 60px, leading-none
+    section: [fluidFontSize(breakpoints.typography.headings.section), { lineHeight: '1.25' }],        // 24px -> 36px, leading-tight
+    subsection: [fluidFontSize(breakpoints.typography.headings.subsection), { lineHeight: '1.375' }], // 20px -> 24px, leading-snug
+    body: [fluidFontSize(breakpoints.typography.body.default), { lineHeight: '1.5' }],                // 14px -> 16px, leading-normal
+    bodyLarge: [fluidFontSize(breakpoints.typography.body.large), { lineHeight: '1.625' }],           // 16px -> 18px, leading-relaxed
+  },
+
   // Responsive patterns - common breakpoint combinations
   responsive: {
     // Hero heading pattern
@@ -390,6 +453,7 @@ export const typography = {
 
 // Type exports for TypeScript usage
 export type TypographyTokens = typeof typography;
+export type TypographyPath = TokenNodePath<TypographyTokens>;
 export type FontFamily = typeof typography.fontFamily;
 export type FontSize = typeof typography.fontSize;
 export type FontWeight = typeof typography.fontWeight;
@@ -400,21 +464,11 @@ export type Headings = typeof typography.headings;
 export type BodyText = typeof typography.body;
 export type TypographyUtilities = typeof typography.utilities;
 export type ResponsiveTypography = typeof typography.responsive;
+export type FluidTypography = typeof typography.fluid;
 
-// Helper function to get typography value by path
-export function getTypography(path: string): any {
-  const keys = path.split('.');
-  let value: any = typography;
-  
-  for (const key of keys) {
-    if (value && typeof value === 'object' && key in value) {
-      value = value[key];
-    } else {
-      throw new Error(`Typography path "${path}" not found`);
-    }
-  }
-  
-  return value;
+// Helper function to get typography group or value by path
+export function getTypography<P extends TypographyPath>(path: P): TokenValue<TypographyTokens, P> {
+  return getTokenValue(typography, path, 'Typography');
 }
 
 // Utility functions for common typography patterns
@@ -439,6 +493,16 @@ export const typographyUtils = {
     return typography.responsive[pattern][breakpoint as keyof typeof typography.responsive[typeof pattern]];
   },
   
+  // Get fluid size as a [clamp(), { lineHeight }] tuple
+  getFluid: (style: keyof typeof typography.fluid) => {
+    return typography.fluid[style];
+  },
+  
+  // Build a custom fluid size between two viewports
+  buildFluidSize: (options: FluidSizeOptions) => {
+    return fluidClamp(options);
+  },
+  
   // Build complete text style object
   buildTextStyle: (options: {
     size?: keyof typeof typography.fontSize;
@@ -40,8 +40,45 @@
  * - Card hover effects: hover:z-10 (temporary elevation)
  * - Popover components: z-10 (navigation popovers, form dropdowns)
  * - Modal backdrops: z-40 (between content and modal)
+ *
+ * Layer order:
+ * - navigation, overlay, popup and sticky values are computed from `layerOrder`,
+ *   which declares each layer relative to the ones below it (see utils/layers)
+ * - the extracted values collided (popovers, dropdowns and menus at z-10,
+ *   modals, drawers, toasts and FABs at z-50) - every layer now has its own rank
+ * - nested portals are raised above their parent layer at runtime by LayerProvider
  */
 
+import { getTokenValue, type TokenPath, type TokenValue } from '../utils/token-transformer';
+import { computeLayers } from '../utils/layers';
+
+// Stacking layers by relative order - each layer sits above every layer it lists
+export const layerOrder = {
+  'sticky.content': {},                                        // Sticky quote cards - just above page content
+  'popup.dropdown': { above: ['sticky.content'] },             // In-page dropdowns open over sticky cards
+  'navigation.popover': { above: ['popup.dropdown'] },         // Navbar popovers (LocationsPopover, PricingPopover)
+  'navigation.dropdown': { above: ['navigation.popover'] },    // User menus open from the navbar
+  'navigation.mobileMenu': { above: ['navigation.dropdown'] }, // Mobile menus slide out under the header
+  'sticky.header': { above: ['navigation.mobileMenu'] },       // Sticky section headers
+  'navigation.header': { above: ['sticky.header'] },           // Site header
+  'navigation.adminHeader': { above: ['navigation.header'] },  // Admin mobile header
+  'sticky.navigation': { above: ['navigation.adminHeader'] },  // Admin sidebar
+  'sticky.fab': { above: ['sticky.navigation'] },              // Floating action buttons
+  'overlay.backdrop': { above: ['sticky.fab'] },               // Backdrops cover all page chrome
+  'overlay.drawer': { above: ['overlay.backdrop'] },           // Side drawers over their backdrop
+  'overlay.modal': { above: ['overlay.drawer'] },              // Modals can open from drawers
+  'popup.popover': { above: ['overlay.modal'] },               // TimePicker, AddressInputField inside modals
+  'popup.contextMenu': { above: ['popup.popover'] },           // Action menus
+  'popup.tooltip': { above: ['popup.contextMenu'] },           // Tooltips above any popup they describe
+  'overlay.loading': { above: ['popup.tooltip'] },             // Loading overlays block every interaction
+  'popup.notification': { above: ['overlay.loading'] },        // Toasts stay visible over loading states
+} as const;
+
+export type LayerName = keyof typeof layerOrder;
+
+// Computed layer values - 30, 40, 50 ... in declaration rank, above the 0-20 content layers
+export const layers = computeLayers(layerOrder, { start: 30 });
+
 export const zIndex = {
   // Base layer values - foundational stacking context
   // Used for: default content, background elements, hidden elements
@@ -62,39 +99,39 @@ export const zIndex = {
   // Navigation layer hierarchy - navigation and menu systems
   // Based on mobile menu patterns (z-20) and navigation popovers (z-10)
   navigation: {
-    popover: 10,      // Navigation popovers (LocationsPopover, PricingPopover, MenuPopover - z-10)
-    dropdown: 10,     // Navigation dropdowns and menus (UserMenuPopover, MoverMenuPopover - z-10)
-    mobileMenu: 20,   // Mobile navigation overlays (MobileMenu, UserMobileMenu, MoverMobileMenu - z-20)
-    header: 30,       // Site header/navbar (above mobile menus)
-    adminHeader: 40,  // Admin header (AdminLayout mobile header - z-40)
+    popover: layers['navigation.popover'],         // Navigation popovers (LocationsPopover, PricingPopover, MenuPopover)
+    dropdown: layers['navigation.dropdown'],       // Navigation dropdowns and menus (UserMenuPopover, MoverMenuPopover)
+    mobileMenu: layers['navigation.mobileMenu'],   // Mobile navigation overlays (MobileMenu, UserMobileMenu, MoverMobileMenu)
+    header: layers['navigation.header'],           // Site header/navbar (above mobile menus)
+    adminHeader: layers['navigation.adminHeader'], // Admin header (AdminLayout mobile header)
   },
 
   // Overlay layer hierarchy - modal and overlay systems
   // Based on modal patterns (z-40 backdrop, z-50 modal) and admin sidebar (z-50)
   overlay: {
-    backdrop: 40,     // Modal backdrops (Modal component - z-40, admin sidebar backdrop)
-    drawer: 50,       // Side drawers and panels (AdminLayout sidebar - z-50)
-    modal: 50,        // Modal dialogs (StorageUnitAssignmentModal, OnfleetTasksModal - z-50)
-    loading: 50,      // Loading overlays (GetQuoteForm, AccessStorageForm loading - z-50)
+    backdrop: layers['overlay.backdrop'], // Modal backdrops (Modal component, admin sidebar backdrop)
+    drawer: layers['overlay.drawer'],     // Side drawers and panels (AdminLayout sidebar)
+    modal: layers['overlay.modal'],       // Modal dialogs (StorageUnitAssignmentModal, OnfleetTasksModal)
+    loading: layers['overlay.loading'],   // Loading overlays (GetQuoteForm, AccessStorageForm loading)
   },
 
   // Popup layer hierarchy - floating elements and interactive overlays
   // Based on dropdown patterns (z-10, z-50) and notification systems (z-50)
   popup: {
-    dropdown: 10,     // Standard dropdowns (form dropdowns, selection menus - z-10)
-    tooltip: 30,      // Tooltips and help text (above dropdowns, below overlays)
-    popover: 40,      // Complex popovers (TimePicker, AddressInputField - z-10 but logically higher)
-    notification: 50, // Toast notifications and alerts (NotificationDropdown - z-50)
-    contextMenu: 50,  // Context menus and action dropdowns (SelectionDropdown - z-50)
+    dropdown: layers['popup.dropdown'],         // Standard dropdowns (form dropdowns, selection menus)
+    tooltip: layers['popup.tooltip'],           // Tooltips and help text (above every other popup)
+    popover: layers['popup.popover'],           // Complex popovers (TimePicker, AddressInputField - open inside modals)
+    notification: layers['popup.notification'], // Toast notifications and alerts (NotificationDropdown)
+    contextMenu: layers['popup.contextMenu'],   // Context menus and action dropdowns (SelectionDropdown)
   },
 
   // Sticky layer hierarchy - fixed and sticky positioned elements
   // Based on sticky positioning patterns found in quote cards and admin layout
   sticky: {
-    content: 30,      // Sticky content elements (quote cards - sticky top-5)
-    header: 40,       // Sticky headers (AdminLayout mobile header - sticky top-0 z-40)
-    fab: 50,          // Floating action buttons (high priority interactive elements)
-    navigation: 50,   // Sticky navigation elements (AdminLayout sidebar - lg:z-50)
+    content: layers['sticky.content'],       // Sticky content elements (quote cards - sticky top-5)
+    header: layers['sticky.header'],         // Sticky headers (sticky top-0)
+    fab: layers['sticky.fab'],               // Floating action buttons (high priority interactive elements)
+    navigation: layers['sticky.navigation'], // Sticky navigation elements (AdminLayout sidebar)
   },
 
   // Maximum priority layers - highest priority elements
@@ -116,39 +153,39 @@ export const zIndex = {
 
     // Form components - dropdowns and overlays
     form: {
-      dropdown: 10,   // Form dropdowns (AddressInputField, LaborHelpDropdown - z-10)
-      autocomplete: 10, // Autocomplete suggestions (AddressInputField - z-10)
-      validation: 20, // Validation messages and tooltips
-      overlay: 50,    // Form submission overlays (loading states - z-50)
+      dropdown: layers['popup.dropdown'],     // Form dropdowns (AddressInputField, LaborHelpDropdown)
+      autocomplete: layers['popup.dropdown'], // Autocomplete suggestions (AddressInputField)
+      validation: layers['popup.tooltip'],    // Validation messages and tooltips
+      overlay: layers['overlay.loading'],     // Form submission overlays (loading states)
     },
 
     // Navigation components - menus and popovers
     navigation: {
-      popover: 10,    // Navigation popovers (LocationsPopover, PricingPopover - z-10)
-      dropdown: 10,   // User menus and dropdowns (UserMenuPopover - z-10)
-      mobile: 20,     // Mobile menu overlays (MobileMenu - z-20)
-      header: 40,     // Navigation headers (AdminLayout - z-40)
+      popover: layers['navigation.popover'],     // Navigation popovers (LocationsPopover, PricingPopover)
+      dropdown: layers['navigation.dropdown'],   // User menus and dropdowns (UserMenuPopover)
+      mobile: layers['navigation.mobileMenu'],   // Mobile menu overlays (MobileMenu)
+      header: layers['navigation.adminHeader'],  // Navigation headers (AdminLayout)
     },
 
     // Modal components - dialogs and overlays
     modal: {
-      backdrop: 40,   // Modal backdrops (Modal component - z-40)
-      dialog: 50,     // Modal dialogs (admin modals - z-50)
-      loading: 50,    // Modal loading states (form loading overlays - z-50)
+      backdrop: layers['overlay.backdrop'], // Modal backdrops (Modal component)
+      dialog: layers['overlay.modal'],      // Modal dialogs (admin modals)
+      loading: layers['overlay.loading'],   // Modal loading states (form loading overlays)
     },
 
     // Admin components - dashboard and management interfaces
     admin: {
-      sidebar: 50,    // Admin sidebar (AdminLayout - lg:z-50)
-      header: 40,     // Admin mobile header (AdminLayout - z-40)
-      dropdown: 10,   // Admin dropdowns (storage units, jobs - z-10)
-      modal: 50,      // Admin modals (assignment modals - z-50)
+      sidebar: layers['sticky.navigation'],     // Admin sidebar (AdminLayout)
+      header: layers['navigation.adminHeader'], // Admin mobile header (AdminLayout)
+      dropdown: layers['popup.dropdown'],       // Admin dropdowns (storage units, jobs)
+      modal: layers['overlay.modal'],           // Admin modals (assignment modals)
     },
 
     // Notification components - alerts and messages
     notification: {
-      toast: 50,      // Toast notifications (NotificationDropdown - z-50)
-      banner: 30,     // Notification banners (below overlays)
+      toast: layers['popup.notification'], // Toast notifications (NotificationDropdown)
+      banner: layers['sticky.header'],     // Notification banners (below overlays)
       badge: 20,      // Notification badges (above content)
     },
   },
@@ -166,7 +203,7 @@ export const zIndex = {
     // Focus states - accessibility and keyboard navigation
     focus: {
       element: 10,    // Focused form elements
-      modal: 50,      // Focused modal elements
+      modal: layers['overlay.modal'], // Focused modal elements
     },
 
     // Active states - pressed and selected elements
@@ -194,16 +231,16 @@ export const zIndex = {
     raise: 1,         // Slightly above default (card hover)
 
     // Above content
-    above: 10,        // Above main content (dropdowns, popovers)
+    above: layers['popup.dropdown'], // Above main content (dropdowns, popovers)
 
     // Navigation level
-    nav: 20,          // Navigation layer (mobile menus)
+    nav: layers['navigation.mobileMenu'], // Navigation layer (mobile menus)
 
     // Header level
-    header: 40,       // Header and sticky elements
+    header: layers['navigation.header'],  // Header and sticky elements
 
     // Overlay level
-    overlay: 50,      // Overlays and modals
+    overlay: layers['overlay.modal'],     // Overlays and modals
 
     // Maximum priority
     max: 9999,        // Maximum z-index for critical elements
@@ -213,6 +250,7 @@ export const zIndex = {
 
 // Type exports for TypeScript usage
 export type ZIndexTokens = typeof zIndex;
+export type ZIndexPath = TokenPath<ZIndexTokens>;
 export type BaseZIndex = typeof zIndex.base;
 export type ContentZIndex = typeof zIndex.content;
 export type NavigationZIndex = typeof zIndex.navigation;
@@ -225,25 +263,13 @@ export type StateZIndex = typeof zIndex.states;
 export type UtilityZIndex = typeof zIndex.utilities;
 
 // Helper function to get z-index value by path
-export function getZIndex(path: string): number {
-  const keys = path.split('.');
-  let value: any = zIndex;
-  
-  for (const key of keys) {
-    if (value && typeof value === 'object' && key in value) {
-      value = value[key];
-    } else {
-      throw new Error(`Z-index path "${path}" not found`);
-    }
-  }
-  
-  if (typeof value !== 'number') {
-    throw new Error(`Z-index path "${path}" does not resolve to a number value`);
-  }
-  
-  return value;
+export function getZIndex<P extends ZIndexPath>(path: P): TokenValue<ZIndexTokens, P> {
+  return getTokenValue(zIndex, path, 'Z-index');
 }
 
+// Tailwind's default z-index scale (z-0 to z-50)
+const tailwindZIndexValues = [0, 10, 20, 30, 40, 50];
+
 // Utility functions for common z-index patterns
 export const zIndexUtils = {
   // Get base z-index
@@ -301,38 +327,24 @@ export const zIndexUtils = {
   
   // Check if z-index is valid Tailwind class
   isTailwindZIndex: (value: number): boolean => {
-    const tailwindValues = [0, 10, 20, 30, 40, 50];
-    return tailwindValues.includes(value);
+    return tailwindZIndexValues.includes(value);
   },
   
-  // Convert z-index value to Tailwind class
+  // Convert z-index value to Tailwind class - arbitrary values outside the default scale
   toTailwindClass: (value: number): string => {
-    if (value === -1) return 'z-[-1]';
-    if (value === 0) return 'z-0';
-    if (value === 1) return 'z-[1]';
-    if (value === 2) return 'z-[2]';
-    if (value === 5) return 'z-[5]';
-    if (value === 10) return 'z-10';
-    if (value === 20) return 'z-20';
-    if (value === 30) return 'z-30';
-    if (value === 40) return 'z-40';
-    if (value === 50) return 'z-50';
-    if (value === 9999) return 'z-[9999]';
-    if (value === 10000) return 'z-[10000]';
-    return `z-[${value}]`;
+    return tailwindZIndexValues.includes(value) ? `z-${value}` : `z-[${value}]`;
   },
   
   // Get layering hierarchy for debugging
   getLayeringOrder: () => {
-    return [
-      'Behind content (-1)',
-      'Default content (0)',
-      'Slight elevation (1-2)',
-      'Content layers (10-20)',
-      'Navigation (20-40)',
-      'Overlays and modals (40-50)',
-      'Critical alerts (9999-10000)'
-    ];
+    return Object.entries(layers)
+      .sort(([, a], [, b]) => a - b)
+      .map(([layer, value]) => `${layer} (${value})`);
+  },
+  
+  // Get computed layer value
+  getLayer: (layer: LayerName) => {
+    return layers[layer];
   },
   
   // Validate z-index value is within reasonable range
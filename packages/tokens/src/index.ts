@@ -3,5 +3,19 @@ export * from './base/colors';
 export * from './base/typography';
 export * from './base/spacing';
 export * from './base/breakpoints';
+export * from './base/borders';
+export * from './base/shadows';
+export * from './base/z-index';
+export * from './base/motion';
+export * from './semantic/theme-contract';
 export * from './semantic/theme-light';
-export * from './semantic/theme-dark';
\ No newline at end of file
+export * from './semantic/theme-dark';
+export * from './semantic/theme-high-contrast';
+export * from './semantic/brand-variants';
+export * from './semantic/density';
+export * from './tokens';
+export * from './utils';
+export * from './platform/web';
+export * from './platform/email';
+export * from './platform/mobile';
+export * from './platform/print';
@@ -0,0 +1,53 @@
+import { colors } from '../base/colors';
+import { flattenTokens } from '../utils/token-transformer';
+import { emailTokens, remToPx, toEmailColor, toEmailTokens } from './email';
+
+describe('Email tokens', () => {
+  const values = flattenTokens(emailTokens).map(({ value }) => String(value));
+
+  it('removes CSS custom properties and rem units everywhere', () => {
+    expect(values.filter(value => value.includes('var('))).toEqual([]);
+    expect(values.filter(value => /\drem\b/.test(value))).toEqual([]);
+  });
+
+  it('resolves fluid clamp() sizes to their fixed maximum', () => {
+    expect(values.filter(value => /clamp\(|\dvw\b/.test(value))).toEqual([]);
+    expect(emailTokens.typography.fluid.hero).toEqual({ fontSize: '60px', lineHeight: '1' });
+  });
+
+  it('never emits space-separated rgb() syntax', () => {
+    expect(values.filter(value => /rgba?\(\d+ /.test(value))).toEqual([]);
+  });
+
+  it('keeps hex colors and converts translucent colors to hex', () => {
+    expect(emailTokens.colors.primary[950]).toBe(colors.primary[950]);
+    expect(emailTokens.shadows.colors.default).toBe('#e6e6e6');
+    expect(toEmailColor('rgb(0 0 0 / 0.1)', '#000000')).toBe('#000000');
+    expect(toEmailColor('rgba(79, 70, 229, 0.3)')).toBe('#cac8f7');
+  });
+
+  it('keeps shadow transparency with legacy rgba()', () => {
+    expect(emailTokens.shadows.elevation.xs).toBe('0 1px 2px 0 rgba(0, 0, 0, 0.05)');
+    expect(emailTokens.shadows.elevation.custom).toBe('0px 6px 20px 0px rgba(0, 0, 0, 0.2)');
+  });
+
+  it('converts rem to px', () => {
+    expect(emailTokens.borders.radius.md).toBe('6px');
+    expect(remToPx('0 0.5rem -0.25rem')).toBe('0 8px -4px');
+    expect(toEmailTokens({ size: '1rem' }, { rootFontSize: 10 }).size).toBe('10px');
+  });
+
+  it('builds font-family strings without next/font variables', () => {
+    expect(emailTokens.typography.fontFamily.sans).toMatch(/^Inter, system-ui, -apple-system/);
+    expect(emailTokens.typography.fontFamily.sans).toContain("'Segoe UI'");
+  });
+
+  it('expands font size tuples to inline style objects', () => {
+    expect(emailTokens.typography.fontSize.sm).toEqual({ fontSize: '14px', lineHeight: '20px' });
+  });
+
+  it('rejects colors it cannot convert', () => {
+    expect(() => toEmailColor('color(display-p3 1 0 0)')).toThrow('cannot be converted for email');
+    expect(toEmailColor('oklch(0.6 0 0)')).toMatch(/^#[0-9a-f]{6}$/);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Boombox Design System - Email Platform Tokens
+ *
+ * Email-client-safe token values for the @boombox/email templates.
+ * Outlook, Gmail and older webmail clients ignore CSS custom properties,
+ * rem units and the space-separated `rgb(r g b / a)` syntax, so every token
+ * is flattened to values that work in inline `style` attributes.
+ *
+ * Conversions:
+ * - colors: hex; translucent colors are composited onto the email background
+ * - colors inside shadows/borders: hex when opaque, legacy `rgba(r, g, b, a)` when translucent
+ * - rem -> px (16px root)
+ * - fluid clamp(min, vw-based, max) sizes -> their max, since clients support neither clamp() nor vw
+ * - font stacks: `var(--font-*)` entries dropped, joined into one font-family string
+ * - [fontSize, { lineHeight }] tuples -> { fontSize, lineHeight } style objects
+ * - any remaining `var(--x, fallback)` resolves to its fallback
+ */
+
+import { tokens } from '../tokens';
+import { colors } from '../base/colors';
+import { isTokenLeaf, type TokenLeaf } from '../utils/token-transformer';
+import { compositeColor, parseColor, toHexColor, toRgbaColor } from '../utils/color';
+
+export const EMAIL_ROOT_FONT_SIZE = 16;
+
+export interface EmailTransformOptions {
+  rootFontSize?: number;   // px per rem
+  background?: string;     // Hex color translucent colors are composited onto
+}
+
+// Email-safe shape of a token tree - font stacks become strings, tuples become style objects
+export type EmailTokens<T> = T extends readonly [string, infer Extra]
+  ? { fontSize: string } & { [K in keyof Extra]: string }
+  : T extends readonly string[]
+    ? string
+    : T extends string
+      ? string
+      : T extends number
+        ? number
+        : { [K in keyof T]: EmailTokens<T[K]> };
+
+const HEX_COLOR_PATTERN = /#[0-9a-f]{3,8}\b/gi;
+const RGB_COLOR_PATTERN = /rgba?\([^)]+\)/gi;
+const REM_PATTERN = /(-?\d*\.?\d+)rem\b/g;
+const CUSTOM_PROPERTY_PATTERN = /var\(\s*--[\w-]+\s*(?:,\s*([^)]*))?\)/g;
+const CLAMP_PATTERN = /clamp\(\s*[^,()]+,\s*[^,()]+,\s*([^,()]+?)\s*\)/g;
+
+// Convert rem lengths inside a value to px
+export function remToPx(value: string, rootFontSize = EMAIL_ROOT_FONT_SIZE): string {
+  return value.replace(REM_PATTERN, (_, amount: string) => `${Number(amount) * rootFontSize}px`);
+}
+
+// Convert a single color to an opaque 6-digit hex, compositing any alpha onto the background
+export function toEmailColor(value: string, background: string = colors.base.white): string {
+  const rgba = parseColor(value);
+  const base = parseColor(background);
+
+  if (!rgba || !base) {
+    throw new Error(`Color "${value}" cannot be converted for email`);
+  }
+
+  return toHexColor(rgba[3] < 1 ? compositeColor(rgba, base) : rgba);
+}
+
+// Serialize a color embedded in a compound value (shadow, border) without losing its alpha
+function toEmbeddedColor(color: string): string {
+  const rgba = parseColor(color);
+  if (!rgba) return color;
+  return rgba[3] < 1 ? toRgbaColor(rgba) : toHexColor(rgba);
+}
+
+// Rewrite colors embedded in a compound value such as a box-shadow
+function toEmailCompound(value: string): string {
+  return value
+    .replace(RGB_COLOR_PATTERN, toEmbeddedColor)
+    .replace(HEX_COLOR_PATTERN, toEmbeddedColor);
+}
+
+// Convert a string token value to its email-safe form
+function toEmailString(value: string, options: Required<EmailTransformOptions>): string {
+  const withoutProperties = value.replace(CUSTOM_PROPERTY_PATTERN, (_, fallback = '') => fallback.trim());
+  const fixed = withoutProperties.replace(CLAMP_PATTERN, (_, max: string) => max);
+  const resolved = remToPx(fixed, options.rootFontSize);
+
+  if (/^(#[0-9a-f]{3,8}|rgba?\(.+\))$/i.test(resolved)) {
+    return toEmailColor(resolved, options.background);
+  }
+  if (/rgba?\(|#[0-9a-f]{3,8}\b/i.test(resolved)) {
+    return toEmailCompound(resolved);
+  }
+  return resolved;
+}
+
+// Convert any token leaf to its email-safe form
+export function toEmailValue(value: TokenLeaf, options: EmailTransformOptions = {}): unknown {
+  const resolved: Required<EmailTransformOptions> = {
+    rootFontSize: options.rootFontSize ?? EMAIL_ROOT_FONT_SIZE,
+    background: options.background ?? colors.base.white,
+  };
+
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return toEmailString(value, resolved);
+
+  if (value.every(item => typeof item === 'string')) {
+    // Font stacks - drop custom properties, quote names with spaces
+    return (value as readonly string[])
+      .filter(font => !font.startsWith('var('))
+      .map(font => (/\s/.test(font) ? `'${font}'` : font))
+      .join(', ');
+  }
+
+  const [fontSize, extra = {}] = value as unknown as readonly [string, Record<string, string>];
+  return Object.entries(extra).reduce<Record<string, string>>(
+    (style, [key, companion]) => ({ ...style, [key]: toEmailString(companion, resolved) }),
+    { fontSize: toEmailString(fontSize, resolved) }
+  );
+}
+
+// Transform a token tree into email-safe values
+export function toEmailTokens<T extends object>(tree: T, options: EmailTransformOptions = {}): EmailTokens<T> {
+  const transformed: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(tree)) {
+    transformed[key] = isTokenLeaf(value) ? toEmailValue(value, options) : toEmailTokens(value, options);
+  }
+
+  return transformed as EmailTokens<T>;
+}
+
+// Email-safe tokens for @boombox/email inline styles
+export const emailTokens = toEmailTokens(tokens);
+
+// Export default email tokens
+export default emailTokens;
@@ -0,0 +1,49 @@
+import { colors } from '../base/colors';
+import { mobileTokens, toDp, toMobileFontFamily, toMobileFontWeight, toMobileShadow } from './mobile';
+
+describe('Mobile tokens', () => {
+  it('converts rem spacing to unitless dp', () => {
+    expect(mobileTokens.spacing.component.md).toBe(16);
+    expect(mobileTokens.spacing.container.responsive.admin.lg).toBe(32);
+    expect(mobileTokens.borders.radius.full).toBe(9999);
+    expect(toDp('0.375rem')).toBe(6);
+    expect(() => toDp('50%')).toThrow('cannot be converted to dp');
+  });
+
+  it('converts font sizes with absolute line heights', () => {
+    expect(mobileTokens.typography.fontSize.sm).toEqual({ fontSize: 14, lineHeight: 20 });
+    expect(mobileTokens.typography.fontSize['5xl']).toEqual({ fontSize: 48, lineHeight: 48 });
+  });
+
+  it('picks a loadable font family', () => {
+    expect(mobileTokens.typography.fontFamily.sans).toBe('Inter');
+    expect(mobileTokens.typography.fontFamily.display).toBe('Poppins');
+    expect(() => toMobileFontFamily(['var(--font-inter)', 'sans-serif'])).toThrow('no loadable font family');
+  });
+
+  it('keeps font weights as React Native literals', () => {
+    expect(mobileTokens.typography.fontWeight.semibold).toBe('600');
+    expect(() => toMobileFontWeight('650')).toThrow('not supported by React Native');
+  });
+
+  it('converts box-shadows to React Native shadow props', () => {
+    expect(mobileTokens.shadows.custom).toEqual({
+      shadowColor: '#000000',
+      shadowOffset: { width: 0, height: 6 },
+      shadowOpacity: 0.2,
+      shadowRadius: 10,
+      elevation: 10,
+    });
+    // Multi-layer shadows use the layer with the largest blur
+    expect(mobileTokens.shadows.lg).toMatchObject({
+      shadowOffset: { width: 0, height: 10 },
+      shadowOpacity: 0.1,
+      shadowRadius: 7.5,
+    });
+    expect(toMobileShadow('none')).toMatchObject({ shadowOpacity: 0, elevation: 0 });
+  });
+
+  it('passes hex colors through unchanged', () => {
+    expect(mobileTokens.colors.primary[950]).toBe(colors.primary[950]);
+  });
+});
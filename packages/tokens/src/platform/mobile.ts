@@ -0,0 +1,181 @@
+/**
+ * Boombox Design System - Mobile Platform Tokens
+ *
+ * React Native tokens for the driver app. React Native styles take unitless
+ * density-independent numbers, a single font family name and platform shadow
+ * props instead of CSS strings, so tokens are converted up front and typed to
+ * drop straight into `StyleSheet.create`.
+ *
+ * Conversions:
+ * - rem/px lengths -> dp numbers (1rem = 16dp)
+ * - [fontSize, { lineHeight }] tuples -> { fontSize, lineHeight } in dp
+ * - font stacks -> first loadable family name (Inter, Poppins)
+ * - fontWeight strings -> RN fontWeight literals ('400', '600', ...)
+ * - box-shadow -> shadowColor/shadowOffset/shadowOpacity/shadowRadius (iOS) + elevation (Android)
+ * - em letter spacing -> dp at the base font size
+ *
+ * RN renders one shadow per view, so multi-layer shadows use their largest layer.
+ */
+
+import { colors } from '../base/colors';
+import { typography } from '../base/typography';
+import { spacing } from '../base/spacing';
+import { borders } from '../base/borders';
+import { shadows } from '../base/shadows';
+import { zIndex } from '../base/z-index';
+import { parseBoxShadow } from '../utils/token-transformer';
+import { parseColor, toHexColor } from '../utils/color';
+
+export const MOBILE_ROOT_FONT_SIZE = 16;
+
+// Font weights accepted by React Native's TextStyle.fontWeight
+export type MobileFontWeight =
+  | 'normal'
+  | 'bold'
+  | '100'
+  | '200'
+  | '300'
+  | '400'
+  | '500'
+  | '600'
+  | '700'
+  | '800'
+  | '900';
+
+// Shadow props accepted by React Native's ViewStyle
+export interface MobileShadow {
+  shadowColor: string;
+  shadowOffset: { width: number; height: number };
+  shadowOpacity: number;
+  shadowRadius: number;
+  elevation: number;
+}
+
+export interface MobileTextSize {
+  fontSize: number;
+  lineHeight: number;
+}
+
+// Unitless shape of a scale of lengths
+export type MobileScale<T> = T extends string ? number : { [K in keyof T]: MobileScale<T[K]> };
+
+const FONT_WEIGHTS: readonly string[] = ['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'];
+
+// CSS-only entries that React Native cannot load as a fontFamily
+export const CSS_FONT_KEYWORD_PATTERN = /^(var\(|ui-|-|system-ui$|sans-serif$|serif$|monospace$)/;
+
+// Convert a CSS length to dp - rem uses the root font size, px maps 1:1
+export function toDp(value: string, rootFontSize = MOBILE_ROOT_FONT_SIZE): number {
+  const match = /^(-?\d*\.?\d+)(rem|em|px)?$/.exec(value.trim());
+
+  if (!match) {
+    throw new Error(`Length "${value}" cannot be converted to dp`);
+  }
+
+  const amount = Number(match[1]);
+  return match[2] === 'rem' || match[2] === 'em' ? amount * rootFontSize : amount;
+}
+
+// Convert every length in a nested scale to dp
+export function toMobileScale<T extends object>(scale: T): MobileScale<T> {
+  const converted: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(scale)) {
+    converted[key] = typeof value === 'string' ? toDp(value) : toMobileScale(value);
+  }
+
+  return converted as MobileScale<T>;
+}
+
+// Pick the first font family React Native can load by name
+export function toMobileFontFamily(stack: readonly string[]): string {
+  const family = stack.find(font => !CSS_FONT_KEYWORD_PATTERN.test(font));
+
+  if (!family) {
+    throw new Error(`Font stack "${stack.join(', ')}" has no loadable font family`);
+  }
+
+  return family;
+}
+
+// Convert a font weight token to a React Native fontWeight
+export function toMobileFontWeight(weight: string): MobileFontWeight {
+  if (!FONT_WEIGHTS.includes(weight)) {
+    throw new Error(`Font weight "${weight}" is not supported by React Native`);
+  }
+  return weight as MobileFontWeight;
+}
+
+// Convert a [fontSize, { lineHeight }] tuple - unitless line heights multiply the size
+export function toMobileTextSize([size, { lineHeight }]: readonly [string, { lineHeight: string }]): MobileTextSize {
+  const fontSize = toDp(size);
+  return {
+    fontSize,
+    lineHeight: /^\d*\.?\d+$/.test(lineHeight) ? fontSize * Number(lineHeight) : toDp(lineHeight),
+  };
+}
+
+// Convert a CSS box-shadow to React Native shadow props
+export function toMobileShadow(value: string): MobileShadow {
+  const layers = parseBoxShadow(value);
+
+  if (!layers) {
+    return {
+      shadowColor: 'transparent',
+      shadowOffset: { width: 0, height: 0 },
+      shadowOpacity: 0,
+      shadowRadius: 0,
+      elevation: 0,
+    };
+  }
+
+  const layer = layers.reduce((largest, current) => (toDp(current.blur) > toDp(largest.blur) ? current : largest));
+  const color = parseColor(layer.color);
+
+  if (!color) {
+    throw new Error(`Shadow color "${layer.color}" cannot be converted for React Native`);
+  }
+
+  const blur = toDp(layer.blur);
+  return {
+    shadowColor: toHexColor(color),
+    shadowOffset: { width: toDp(layer.offsetX), height: toDp(layer.offsetY) },
+    shadowOpacity: color[3],
+    // iOS shadowRadius is roughly half the CSS blur radius
+    shadowRadius: blur / 2,
+    elevation: Math.round(Math.max(toDp(layer.offsetY), blur / 2)),
+  };
+}
+
+// Map each entry of a token group through a converter
+function mapTokens<T extends object, R>(group: T, convert: (value: T[keyof T]) => R): { [K in keyof T]: R } {
+  return Object.fromEntries(
+    Object.entries(group).map(([key, value]) => [key, convert(value as T[keyof T])])
+  ) as { [K in keyof T]: R };
+}
+
+// React Native tokens for StyleSheet.create
+export const mobileTokens = {
+  colors,
+  spacing: toMobileScale(spacing),
+  typography: {
+    fontFamily: mapTokens(typography.fontFamily, toMobileFontFamily),
+    fontSize: mapTokens(typography.fontSize, toMobileTextSize),
+    fontWeight: mapTokens(typography.fontWeight, toMobileFontWeight),
+    letterSpacing: toMobileScale(typography.letterSpacing),
+    colors: typography.colors,
+  },
+  borders: {
+    width: toMobileScale(borders.width),
+    radius: toMobileScale(borders.radius),
+    colors: borders.colors,
+  },
+  shadows: mapTokens(shadows.elevation, toMobileShadow),
+  zIndex,
+};
+
+// Type exports for TypeScript usage
+export type MobileTokens = typeof mobileTokens;
+
+// Export default mobile tokens
+export default mobileTokens;
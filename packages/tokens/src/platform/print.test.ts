@@ -0,0 +1,45 @@
+import { flattenTokens } from '../utils/token-transformer';
+import { generatePrintStylesheet, printPalette, printTokens, toPrintColor, toPt } from './print';
+
+describe('Print tokens', () => {
+  it('converts lengths to pt', () => {
+    expect(toPt('1rem')).toBe('12pt');
+    expect(toPt('1px')).toBe('0.75pt');
+    expect(toPt('0.025em')).toBe('0.025em');
+    expect(printTokens.spacing.component.md).toBe('12pt');
+    expect(printTokens.typography.fontSize.sm).toEqual({ fontSize: '10.5pt', lineHeight: '15pt' });
+  });
+
+  it('does not include shadows', () => {
+    expect(printTokens).not.toHaveProperty('shadows');
+  });
+
+  it('maps every color to the monochrome palette', () => {
+    const palette: string[] = [...Object.values(printPalette), 'transparent'];
+    const printed = flattenTokens({ ...printTokens.colors, ...printTokens.borders.colors });
+    expect(printed.filter(({ value }) => !palette.includes(String(value)))).toEqual([]);
+    expect(toPrintColor('#222222')).toBe(printPalette.black);
+    expect(toPrintColor('#e2e8f0')).toBe(printPalette.light);
+  });
+
+  it('keeps text colors dark enough to read', () => {
+    expect(printTokens.typography.colors.primary).toBe(printPalette.black);
+    expect(printTokens.typography.colors.warning).toBe(printPalette.dark);
+    expect(printTokens.typography.colors.inverse).toBe(printPalette.white);
+  });
+
+  it('emits an @media print stylesheet from the spacing scale', () => {
+    const css = generatePrintStylesheet();
+    expect(css.startsWith('@media print {\n  @page {\n    size: letter;\n    margin: 24pt;')).toBe(true);
+    expect(css).toContain('box-shadow: none !important;');
+    expect(css).toContain('break-inside: avoid;');
+    expect(css).toContain('margin-bottom: 18pt;');
+    expect(css).not.toContain('var(');
+  });
+
+  it('supports label page sizes', () => {
+    const css = generatePrintStylesheet({ pageSize: '4in 6in', orientation: 'landscape', margin: '0' });
+    expect(css).toContain('size: 4in 6in landscape;');
+    expect(css).toContain('margin: 0;');
+  });
+});
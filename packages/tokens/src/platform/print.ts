@@ -0,0 +1,207 @@
+/**
+ * Boombox Design System - Print Platform Tokens
+ *
+ * Print tokens for quotes, invoices and storage unit labels. Printers work in
+ * points, rarely reproduce shadows and are often monochrome, so tokens are
+ * converted to pt, shadows are dropped and colors snap to a small
+ * high-contrast grayscale set that stays legible on any printer.
+ *
+ * Conversions:
+ * - rem/px lengths -> pt (1rem = 16px = 12pt)
+ * - colors -> black, dark gray, light gray or white by relative luminance
+ * - font stacks -> no `var(--font-*)` entries
+ * - shadows -> removed
+ *
+ * `generatePrintStylesheet` emits an `@media print` block with @page size and
+ * margins, break-avoid rules and spacing taken from the spacing scale.
+ */
+
+import { colors } from '../base/colors';
+import { typography } from '../base/typography';
+import { spacing } from '../base/spacing';
+import { borders } from '../base/borders';
+import { parseColor, relativeLuminance } from '../utils/color';
+import { renderCssRule, toCssValue } from '../utils/css-variables';
+
+export const PX_PER_PT = 4 / 3;
+export const PRINT_ROOT_FONT_SIZE = 16;
+
+// Monochrome-safe print palette - each step keeps at least 7:1 contrast against white or black
+export const printPalette = {
+  black: '#000000',   // Text, borders and dark fills
+  dark: '#404040',    // Secondary text (10.4:1 on white)
+  light: '#d9d9d9',   // Light fills and subtle dividers
+  white: '#ffffff',   // Paper
+} as const;
+
+export type PrintColor = typeof printPalette[keyof typeof printPalette];
+
+// Shape of a token group after print conversion
+export type PrintScale<T> = T extends string ? string : { [K in keyof T]: PrintScale<T[K]> };
+
+export type PrintPageSize = 'letter' | 'legal' | 'A4' | 'A5' | (string & NonNullable<unknown>);
+
+export interface PrintStylesheetOptions {
+  pageSize?: PrintPageSize;                 // @page size, e.g. 'letter' or '4in 6in' for labels
+  orientation?: 'portrait' | 'landscape';
+  margin?: string;                          // Page margin, defaults to spacing.layout.sm
+}
+
+// Convert a CSS length to pt - other units (em, %) pass through
+export function toPt(value: string, rootFontSize = PRINT_ROOT_FONT_SIZE): string {
+  const match = /^(-?\d*\.?\d+)(rem|px)$/.exec(value.trim());
+  if (!match) return value;
+
+  const px = match[2] === 'rem' ? Number(match[1]) * rootFontSize : Number(match[1]);
+  return `${Number((px / PX_PER_PT).toFixed(2))}pt`;
+}
+
+// Relative luminance of a color token
+function luminanceOf(value: string): number {
+  const rgba = parseColor(value);
+  if (!rgba) {
+    throw new Error(`Color "${value}" cannot be converted for print`);
+  }
+  return relativeLuminance(rgba);
+}
+
+// Snap a color to the monochrome print palette by relative luminance
+export function toPrintColor(value: string): PrintColor | 'transparent' {
+  if (value === 'transparent') return value;
+
+  const luminance = luminanceOf(value);
+  if (luminance < 0.1) return printPalette.black;
+  if (luminance < 0.4) return printPalette.dark;
+  if (luminance < 0.85) return printPalette.light;
+  return printPalette.white;
+}
+
+// Snap a text color to the palette - mid-tone text (warning, muted) never prints light gray
+export function toPrintTextColor(value: string): PrintColor {
+  const luminance = luminanceOf(value);
+  if (luminance < 0.1) return printPalette.black;
+  if (luminance < 0.85) return printPalette.dark;
+  return printPalette.white;
+}
+
+// Convert every length in a nested scale to pt
+export function toPrintScale<T extends object>(scale: T): PrintScale<T> {
+  const converted: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(scale)) {
+    converted[key] = typeof value === 'string' ? toPt(value) : toPrintScale(value);
+  }
+
+  return converted as PrintScale<T>;
+}
+
+// Convert every color in a nested group to the print palette
+export function toPrintColors<T extends object>(
+  group: T,
+  convert: (value: string) => string = toPrintColor
+): PrintScale<T> {
+  const converted: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(group)) {
+    converted[key] = typeof value === 'string' ? convert(value) : toPrintColors(value, convert);
+  }
+
+  return converted as PrintScale<T>;
+}
+
+// Drop custom properties from font stacks
+function toPrintFontFamily(stack: readonly string[]): string {
+  return toCssValue(stack.filter(font => !font.startsWith('var(')));
+}
+
+// Print tokens - no shadows, pt units, monochrome colors
+export const printTokens = {
+  colors: toPrintColors(colors),
+  typography: {
+    fontFamily: {
+      sans: toPrintFontFamily(typography.fontFamily.sans),
+      display: toPrintFontFamily(typography.fontFamily.display),
+      mono: toPrintFontFamily(typography.fontFamily.mono),
+    },
+    fontSize: Object.fromEntries(
+      Object.entries(typography.fontSize).map(([key, [size, { lineHeight }]]) => [
+        key,
+        { fontSize: toPt(size), lineHeight: toPt(lineHeight) },
+      ])
+    ) as Record<keyof typeof typography.fontSize, { fontSize: string; lineHeight: string }>,
+    fontWeight: typography.fontWeight,
+    colors: toPrintColors(typography.colors, toPrintTextColor),
+  },
+  spacing: toPrintScale(spacing),
+  borders: {
+    width: toPrintScale(borders.width),
+    radius: toPrintScale(borders.radius),
+    colors: toPrintColors(borders.colors),
+  },
+  page: {
+    margin: toPt(spacing.layout.sm),        // 24pt page margin
+    gutter: toPt(spacing.stack.md),         // 18pt between blocks
+  },
+};
+
+// Type exports for TypeScript usage
+export type PrintTokens = typeof printTokens;
+
+// Indent a block of rules for nesting inside @media print
+function indent(css: string): string {
+  return css
+    .trimEnd()
+    .split('\n')
+    .map(line => (line ? `  ${line}` : line))
+    .join('\n');
+}
+
+// Generate the @media print stylesheet
+export function generatePrintStylesheet(options: PrintStylesheetOptions = {}): string {
+  const { pageSize = 'letter', orientation, margin = printTokens.page.margin } = options;
+  const { typography: type, page } = printTokens;
+
+  const rules = [
+    renderCssRule('@page', {
+      size: orientation ? `${pageSize} ${orientation}` : pageSize,
+      margin,
+    }),
+    renderCssRule('*,\n*::before,\n*::after', {
+      'box-shadow': 'none !important',
+      'text-shadow': 'none !important',
+    }),
+    renderCssRule('html', {
+      'font-size': toPt(`${PRINT_ROOT_FONT_SIZE}px`),
+      color: printPalette.black,
+      background: printPalette.white,
+      '-webkit-print-color-adjust': 'exact',
+      'print-color-adjust': 'exact',
+    }),
+    renderCssRule('body', {
+      'font-family': type.fontFamily.sans,
+      'line-height': typography.lineHeight.normal,
+    }),
+    renderCssRule('h1,\nh2,\nh3,\nh4,\nh5,\nh6', {
+      'break-after': 'avoid',
+      'page-break-after': 'avoid',
+    }),
+    renderCssRule('p', {
+      orphans: '3',
+      widows: '3',
+    }),
+    renderCssRule('table,\nfigure,\nimg,\ntr,\nblockquote,\npre,\n[data-print="avoid-break"]', {
+      'break-inside': 'avoid',
+      'page-break-inside': 'avoid',
+      'margin-bottom': page.gutter,
+    }),
+    renderCssRule('[data-print="page-break"]', {
+      'break-before': 'page',
+      'page-break-before': 'always',
+    }),
+    renderCssRule('[data-print="hidden"]', {
+      display: 'none !important',
+    }),
+  ];
+
+  return `@media print {\n${rules.map(indent).join('\n\n')}\n}\n`;
+}
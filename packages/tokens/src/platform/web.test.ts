@@ -0,0 +1,80 @@
+import { colors } from '../base/colors';
+import { shadows } from '../base/shadows';
+import { containerQueriesPlugin, createTailwindPreset, flattenScale, tailwindPreset } from './web';
+
+describe('Tailwind preset', () => {
+  const { extend } = tailwindPreset.theme as { extend: Record<string, any> };
+
+  it('exposes brand and semantic color scales', () => {
+    expect(extend.colors.primary[950]).toBe(colors.primary[950]);
+    expect(extend.colors.error[500]).toBe(colors.semantic.error[500]);
+  });
+
+  it('includes the custom elevation shadow', () => {
+    expect(extend.boxShadow.custom).toBe(shadows.elevation.custom);
+  });
+
+  it('flattens grouped spacing and z-index scales', () => {
+    expect(extend.spacing['grid-md']).toBe('1rem');
+    expect(extend.spacing['container-desktop']).toBe('4rem');
+    expect(extend.spacing).not.toHaveProperty('responsive-section-bottom-base');
+    expect(extend.zIndex['overlay-modal']).toBe('150');
+    expect(extend.zIndex['navigation-mobile-menu']).toBe('70');
+  });
+
+  it('reads motion values through their reduced-motion aware variables', () => {
+    expect(extend.transitionDuration.DEFAULT).toBe('var(--bb-motion-duration-normal, 150ms)');
+    expect(extend.transitionDuration.moderate).toBe('var(--bb-motion-duration-moderate, 200ms)');
+    expect(extend.transitionTimingFunction['in-out']).toBe('var(--bb-motion-easing-in-out, cubic-bezier(0.42, 0, 0.58, 1))');
+    expect(extend.animation.shimmer).toBe('var(--bb-motion-animation-shimmer, shimmer 1500ms linear infinite)');
+    expect(extend.keyframes).toHaveProperty('shimmer');
+  });
+
+  it('reads component spacing and control sizes through density variables', () => {
+    expect(extend.spacing['component-md']).toBe('var(--bb-density-spacing-component-md, 1rem)');
+    expect(extend.spacing['control-md']).toBe('var(--bb-density-control-padding-x-md, 1rem)');
+    expect(extend.height['control-sm']).toBe('var(--bb-density-control-height-sm, 2rem)');
+    expect(extend.fontSize['control-lg']).toBe('var(--bb-density-control-font-size-lg, 1rem)');
+  });
+
+  it('adds fluid font sizes next to the static scale', () => {
+    expect(extend.fontSize.sm).toEqual(['0.875rem', { lineHeight: '1.25rem' }]);
+    expect(extend.fontSize['fluid-hero']).toEqual(['clamp(3rem, 1.875vw + 2.25rem, 3.75rem)', { lineHeight: '1' }]);
+    expect(extend.fontSize).toHaveProperty('fluid-body-large');
+  });
+
+  it('merges extra theme values', () => {
+    const preset = createTailwindPreset({ aspectRatio: { card: '4 / 3' } });
+    expect(preset.theme.extend).toHaveProperty('aspectRatio.card', '4 / 3');
+    expect(preset.theme.extend).toHaveProperty('screens.lg', '1024px');
+  });
+
+  it('reads border widths from the theme', () => {
+    expect(extend.borderWidth.DEFAULT).toBe('var(--bb-theme-border-width-default, 1px)');
+    expect(extend.borderWidth.strong).toBe('var(--bb-theme-border-width-strong, 2px)');
+  });
+
+  it('adds container query utilities and variants', () => {
+    const matchUtilities = jest.fn();
+    const matchVariant = jest.fn();
+    containerQueriesPlugin({ matchUtilities, matchVariant });
+
+    const [[utilities]] = matchUtilities.mock.calls;
+    const [[name, variant, { values }]] = matchVariant.mock.calls;
+    expect(tailwindPreset.plugins).toContain(containerQueriesPlugin);
+    expect(utilities['@container']('inline-size', { modifier: 'card' }))
+      .toEqual({ 'container-type': 'inline-size', 'container-name': 'card' });
+    expect(name).toBe('@');
+    expect(values.md).toBe('28rem');
+    expect(variant('28rem', { modifier: 'card' })).toBe('@container card (min-width: 28rem)');
+    expect(variant('28rem', { modifier: null })).toBe('@container (min-width: 28rem)');
+  });
+
+  it('switches dark variants on the data-theme attribute', () => {
+    expect(tailwindPreset.darkMode).toEqual(['selector', '[data-theme="dark"]']);
+  });
+
+  it('flattens nested scales with dash-joined keys', () => {
+    expect(flattenScale({ a: { bTwo: 1 } })).toEqual({ 'a-b-two': '1' });
+  });
+});
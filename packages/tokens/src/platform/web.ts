@@ -0,0 +1,220 @@
+/**
+ * Boombox Design System - Web Platform Tokens
+ *
+ * Tailwind CSS preset built from the token source so consuming apps
+ * (boombox-10.0, documentation, playground) stop hand-copying config.
+ *
+ * Mapping into `theme.extend`:
+ * - colors: complete 50-950 primary/secondary/semantic ramps, semantic at the top level (bg-primary-600, text-error-500)
+ * - fontSize, fontFamily, fontWeight: typography scales (text-sm, font-display, font-semibold)
+ * - fluid sizes: fontSize entries prefixed with fluid- (text-fluid-hero, text-fluid-body-large)
+ * - spacing: grouped scales flattened with a dash (p-component-md, gap-grid-lg, px-container-mobile)
+ * - density: component spacing and control-* height, padding and text follow [data-density]
+ *   (p-component-md, h-control-md, px-control-md, text-control-md)
+ * - borderRadius: borders.radius (rounded-md)
+ * - borderWidth: border and border-strong follow the theme's borderWidth slots, so the
+ *   high contrast theme thickens every default border
+ * - boxShadow: shadows.elevation including custom (shadow-custom)
+ * - screens: breakpoints.screens (sm:, lg:, 2xl:)
+ * - container queries: @container and @container/<name> establish a container, @sm: and
+ *   @sm/<name>: apply at breakpoints.containerQueries widths (plugin, no extra dependency)
+ * - zIndex: layer groups flattened with a dash (z-overlay-modal, z-popup-tooltip)
+ * - transitionDuration, transitionTimingFunction: motion scales, also the defaults behind
+ *   transition-colors (duration-moderate, ease-enter)
+ * - animation, keyframes: motion.animation and motionKeyframes (animate-shimmer)
+ *
+ * Motion values read the --bb-motion-* variables, falling back to the token value,
+ * so the generated prefers-reduced-motion overrides also stop Tailwind transitions.
+ *
+ * `dark:` variants follow the same `[data-theme="dark"]` attribute as the theme variables.
+ *
+ * Responsive props (utils/responsive) build breakpoint-prefixed classes at runtime, which
+ * Tailwind can't find in source, so the preset safelists those utilities at every screen:
+ * grid-cols-1 to 12, gap-grid-*, and the control h-/px-/text- sizes.
+ */
+
+import { colorScales } from '../base/colors';
+import { typography } from '../base/typography';
+import { spacing } from '../base/spacing';
+import { borders } from '../base/borders';
+import { shadows } from '../base/shadows';
+import { breakpoints } from '../base/breakpoints';
+import { zIndex } from '../base/z-index';
+import { motion, motionKeyframes } from '../base/motion';
+import { densityModes, DEFAULT_DENSITY } from '../semantic/density';
+import { lightTheme } from '../semantic/theme-light';
+import { cssVar, type CssVariablePath } from '../utils/css-variables';
+import { flattenTokens, toKebabCase } from '../utils/token-transformer';
+
+// Tailwind safelist entry - every class matching the pattern, plain and with each variant
+export interface TailwindSafelistPattern {
+  pattern: RegExp;
+  variants: string[];
+}
+
+// Minimal preset shape - avoids a runtime dependency on tailwindcss types
+export interface TailwindPreset {
+  darkMode: [string, string];
+  safelist: TailwindSafelistPattern[];
+  theme: {
+    extend: Record<string, unknown>;
+  };
+  plugins: unknown[];
+}
+
+// Flatten a nested scale into dash-joined Tailwind keys (component.md -> component-md)
+export function flattenScale(tree: object): Record<string, string> {
+  return flattenTokens(tree).reduce<Record<string, string>>((scale, { path, value }) => {
+    scale[path.map(toKebabCase).join('-')] = String(value);
+    return scale;
+  }, {});
+}
+
+// Tailwind color name for a color token path, e.g. colors.semantic.error.500 -> error-500
+export function tailwindColorName(path: string): string {
+  const [category, ...rest] = path.split('.');
+  if (category !== 'colors' || !rest.length) {
+    throw new Error(`Token "${path}" is not a color token`);
+  }
+
+  // Semantic scales sit at the top level of the preset, base colors keep Tailwind's white/black
+  const segments = rest[0] === 'semantic' || rest[0] === 'base' ? rest.slice(1) : rest;
+  return segments.map(toKebabCase).join('-');
+}
+
+// Point each motion value at its custom property, keeping the token value as fallback
+function motionScale(group: 'duration' | 'easing' | 'animation'): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(motion[group]).map(([key, value]) => [
+      toKebabCase(key),
+      cssVar(`motion.${group}.${key}` as CssVariablePath, value),
+    ])
+  );
+}
+
+// Point density-dependent values at their custom property, keeping the default mode as fallback
+function densityScale(tree: object, root: string, prefix: string): Record<string, string> {
+  return flattenTokens(tree).reduce<Record<string, string>>((scale, { path, value }) => {
+    scale[`${prefix}${path.map(toKebabCase).join('-')}`] = cssVar(
+      `density.${root}.${path.join('.')}` as CssVariablePath,
+      String(value)
+    );
+    return scale;
+  }, {});
+}
+
+// Build the theme.extend section from tokens
+export function buildTailwindTheme() {
+  // Responsive patterns are per-breakpoint values, not scale steps, so they stay out
+  const { layout, grid, stack, inline, container } = spacing;
+  const density = densityModes[DEFAULT_DENSITY];
+
+  return {
+    colors: {
+      primary: colorScales.primary,
+      secondary: colorScales.secondary,
+      ...colorScales.semantic,
+    },
+    fontFamily: typography.fontFamily,
+    fontSize: {
+      ...typography.fontSize,
+      ...Object.fromEntries(
+        Object.entries(typography.fluid).map(([key, size]) => [`fluid-${toKebabCase(key)}`, size])
+      ),
+      ...densityScale(density.control.fontSize, 'control.fontSize', 'control-'),
+    },
+    fontWeight: typography.fontWeight,
+    spacing: {
+      ...densityScale(density.spacing.component, 'spacing.component', 'component-'),
+      ...densityScale(density.control.paddingX, 'control.paddingX', 'control-'),
+      ...flattenScale({ layout, grid, stack, inline }),
+      'container-mobile': container.mobile,
+      'container-desktop': container.desktop,
+    },
+    borderRadius: borders.radius,
+    borderWidth: {
+      DEFAULT: cssVar('theme.borderWidth.default', lightTheme.borderWidth.default),
+      strong: cssVar('theme.borderWidth.strong', lightTheme.borderWidth.strong),
+    },
+    boxShadow: shadows.elevation,
+    height: densityScale(density.control.height, 'control.height', 'control-'),
+    screens: breakpoints.screens,
+    zIndex: flattenScale(zIndex),
+    transitionDuration: {
+      DEFAULT: cssVar('motion.duration.normal', motion.duration.normal),
+      ...motionScale('duration'),
+    },
+    transitionTimingFunction: {
+      DEFAULT: cssVar('motion.easing.standard', motion.easing.standard),
+      ...motionScale('easing'),
+    },
+    animation: motionScale('animation'),
+    keyframes: motionKeyframes,
+  };
+}
+
+// Subset of the Tailwind plugin API used by the preset's plugins
+interface TailwindPluginApi {
+  matchUtilities: (
+    utilities: Record<string, (value: string, extra: { modifier: string | null }) => Record<string, string>>,
+    options: { values: Record<string, string>; modifiers?: 'any' }
+  ) => void;
+  matchVariant: (
+    name: string,
+    variant: (value: string, extra: { modifier: string | null }) => string,
+    options: { values: Record<string, string>; sort?: (a: { value: string }, b: { value: string }) => number }
+  ) => void;
+}
+
+// Container queries - same class names as @tailwindcss/container-queries
+// (@container/card on the parent, @md/card:flex-row on descendants)
+export function containerQueriesPlugin({ matchUtilities, matchVariant }: TailwindPluginApi): void {
+  matchUtilities(
+    {
+      '@container': (value, { modifier }) => ({
+        'container-type': value,
+        ...(modifier ? { 'container-name': modifier } : {}),
+      }),
+    },
+    { values: { DEFAULT: 'inline-size', normal: 'normal' }, modifiers: 'any' }
+  );
+
+  matchVariant(
+    '@',
+    (value, { modifier }) => `@container ${modifier ? `${modifier} ` : ''}(min-width: ${value})`,
+    { values: breakpoints.containerQueries, sort: (a, b) => parseFloat(a.value) - parseFloat(b.value) }
+  );
+}
+
+// Utilities responsive component props resolve to, at every screen
+export function buildResponsiveSafelist(): TailwindSafelistPattern[] {
+  const variants = Object.keys(breakpoints.screens);
+  const keys = (scale: object) => Object.keys(scale).join('|');
+
+  return [
+    { pattern: /^grid-cols-([1-9]|1[0-2])$/, variants },
+    { pattern: new RegExp(`^gap-grid-(${keys(spacing.grid)})$`), variants },
+    { pattern: new RegExp(`^(h|px|text)-control-(${keys(densityModes[DEFAULT_DENSITY].control.height)})$`), variants },
+  ];
+}
+
+// Create a Tailwind preset, optionally merging extra theme.extend values
+export function createTailwindPreset(extend: Record<string, unknown> = {}): TailwindPreset {
+  return {
+    darkMode: ['selector', '[data-theme="dark"]'],
+    safelist: buildResponsiveSafelist(),
+    theme: {
+      extend: {
+        ...buildTailwindTheme(),
+        ...extend,
+      },
+    },
+    plugins: [containerQueriesPlugin],
+  };
+}
+
+// Default preset consumed by @boombox/tokens/tailwind
+export const tailwindPreset = createTailwindPreset();
+
+// Export default preset
+export default tailwindPreset;
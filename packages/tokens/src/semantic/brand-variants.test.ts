@@ -0,0 +1,65 @@
+import { colors } from '../base/colors';
+import {
+  defineBrand,
+  generateBrandCssVariables,
+  resolveBrandMatrix,
+  resolveBrandTheme,
+} from './brand-variants';
+import { lightTheme } from './theme-light';
+import { darkTheme } from './theme-dark';
+
+const partner = defineBrand({
+  name: 'partner-x',
+  label: 'Partner X Moving',
+  shared: { colors: { interactive: { primary: { default: '#0f766e' } } } },
+  dark: { colors: { interactive: { primary: { default: '#5eead4' } } } },
+});
+
+describe('Brand variants', () => {
+  it('falls back to Boombox defaults for unset slots', () => {
+    const theme = resolveBrandTheme(partner, 'light');
+    expect(theme.colors.interactive.primary.default).toBe('#0f766e');
+    expect(theme.colors.interactive.primary.hover).toBe(lightTheme.colors.interactive.primary.hover);
+    expect(theme.colors.surface).toEqual(lightTheme.colors.surface);
+  });
+
+  it('applies mode overrides after shared overrides', () => {
+    expect(resolveBrandTheme(partner, 'dark').colors.interactive.primary.default).toBe('#5eead4');
+    expect(darkTheme.colors.interactive.primary.default).not.toBe('#5eead4');
+  });
+
+  it('does not mutate the base themes', () => {
+    resolveBrandTheme(partner, 'light');
+    expect(lightTheme.colors.interactive.primary.default).toBe(colors.primary[950]);
+  });
+
+  it('resolves the brand × mode matrix including the default brand', () => {
+    const matrix = resolveBrandMatrix([partner]);
+    expect(Object.keys(matrix)).toEqual(['boombox', 'partner-x']);
+    expect(matrix.boombox.dark).toBe(darkTheme);
+    expect(matrix['partner-x'].light.focus).toEqual(lightTheme.focus);
+  });
+
+  it('validates every resolved combination', () => {
+    const broken = defineBrand({ name: 'broken', dark: { colors: { text: { link: '' } } } });
+    expect(() => resolveBrandMatrix([broken])).toThrow(
+      'Theme "broken/dark" is missing slots: colors.text.link'
+    );
+    expect(() => resolveBrandMatrix([partner, partner])).toThrow(
+      'Brand "partner-x" is defined more than once'
+    );
+  });
+
+  it('rejects brand names that are not valid attribute values', () => {
+    expect(() => defineBrand({ name: 'Partner X' })).toThrow('must be kebab-case');
+    expect(() => defineBrand({ name: 'boombox' })).toThrow('reserved');
+  });
+
+  it('emits data-brand scoped CSS for both modes', () => {
+    const css = generateBrandCssVariables([partner]);
+    expect(css).toContain('[data-brand="partner-x"] {\n');
+    expect(css).toContain('[data-brand="partner-x"][data-theme="dark"],\n[data-theme="dark"] [data-brand="partner-x"] {');
+    expect(css).toContain('--bb-theme-colors-interactive-primary-default: #0f766e;');
+    expect(css).toContain('--bb-theme-colors-interactive-primary-default: #5eead4;');
+  });
+});
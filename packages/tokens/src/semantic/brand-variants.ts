@@ -0,0 +1,116 @@
+/**
+ * Boombox Design System - Brand Variants
+ *
+ * White-label support for partner-branded flows (moving partners, storage
+ * partners). A brand is a partial override of the semantic theme contract;
+ * anything it leaves out falls back to the Boombox light/dark themes.
+ *
+ * Resolution order for each brand × mode:
+ * 1. Boombox theme for the mode (lightTheme / darkTheme)
+ * 2. `shared` overrides - applied in both modes
+ * 3. `light` or `dark` overrides - applied in that mode only
+ *
+ * Every resolved combination is checked with `assertTheme`, and CSS output
+ * scopes each brand under `[data-brand="<name>"]` so a partner flow can be
+ * re-skinned by setting one attribute.
+ */
+
+import { lightTheme } from './theme-light';
+import { darkTheme } from './theme-dark';
+import { assertTheme, type ThemeContract, type ThemeMode } from './theme-contract';
+import { buildThemeVariables, renderCssRule } from '../utils/css-variables';
+
+// Recursively optional theme shape for overrides
+export type ThemeOverride<T = ThemeContract> = {
+  [K in keyof T]?: T[K] extends string ? string : ThemeOverride<T[K]>;
+};
+
+export interface BrandDefinition {
+  name: string;                 // data-brand attribute value (kebab-case)
+  label?: string;               // Human readable partner name
+  shared?: ThemeOverride;       // Overrides applied in light and dark mode
+  light?: ThemeOverride;        // Light mode overrides
+  dark?: ThemeOverride;         // Dark mode overrides
+}
+
+export type BrandThemeMatrix = Record<string, Record<ThemeMode, ThemeContract>>;
+
+// Name of the built-in brand every partner falls back to
+export const DEFAULT_BRAND = 'boombox';
+
+// Boombox base theme per mode
+export const baseThemes: Record<ThemeMode, ThemeContract> = {
+  light: lightTheme,
+  dark: darkTheme,
+};
+
+const BRAND_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Deep merge theme overrides into a base theme without mutating either
+function mergeTheme<T extends object>(base: T, override: ThemeOverride<T> = {}): T {
+  const merged = { ...base } as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    const current = merged[key];
+    merged[key] = current && typeof current === 'object' && typeof value === 'object'
+      ? mergeTheme(current as object, value as ThemeOverride<object>)
+      : value;
+  }
+
+  return merged as T;
+}
+
+// Define a brand with type-checked overrides
+export function defineBrand(brand: BrandDefinition): BrandDefinition {
+  if (!BRAND_NAME_PATTERN.test(brand.name)) {
+    throw new Error(`Brand name "${brand.name}" must be kebab-case (e.g. "partner-x")`);
+  }
+  if (brand.name === DEFAULT_BRAND) {
+    throw new Error(`Brand name "${DEFAULT_BRAND}" is reserved for the default theme`);
+  }
+  return brand;
+}
+
+// Resolve a complete theme for a brand in the given mode
+export function resolveBrandTheme(brand: BrandDefinition, mode: ThemeMode): ThemeContract {
+  const theme = mergeTheme(mergeTheme(baseThemes[mode], brand.shared), brand[mode]);
+  assertTheme(theme, `${brand.name}/${mode}`);
+  return theme;
+}
+
+// Resolve every brand × mode combination, including the Boombox default
+export function resolveBrandMatrix(brands: BrandDefinition[]): BrandThemeMatrix {
+  const matrix: BrandThemeMatrix = { [DEFAULT_BRAND]: baseThemes };
+
+  for (const brand of brands) {
+    if (brand.name in matrix) {
+      throw new Error(`Brand "${brand.name}" is defined more than once`);
+    }
+    matrix[brand.name] = {
+      light: resolveBrandTheme(brand, 'light'),
+      dark: resolveBrandTheme(brand, 'dark'),
+    };
+  }
+
+  return matrix;
+}
+
+// Generate [data-brand] scoped theme variables for each brand and mode
+export function generateBrandCssVariables(brands: BrandDefinition[]): string {
+  const matrix = resolveBrandMatrix(brands);
+
+  return brands
+    .flatMap(({ name }) => {
+      const scope = `[data-brand="${name}"]`;
+      // Dark blocks repeat every variable so light overrides never leak into dark mode
+      return [
+        renderCssRule(scope, buildThemeVariables(matrix[name].light)),
+        renderCssRule(
+          `${scope}[data-theme="dark"],\n[data-theme="dark"] ${scope}`,
+          buildThemeVariables(matrix[name].dark)
+        ),
+      ];
+    })
+    .join('\n');
+}
@@ -0,0 +1,37 @@
+import { spacing } from '../base/spacing';
+import { buildDensityTokens, DENSITY_MODES, densityModes, densityUtils, scaleLength, type DensityMode } from './density';
+
+describe('Density modes', () => {
+  it('keeps the original spacing and Button sizes in the default mode', () => {
+    expect(densityModes.default.spacing.component).toEqual(spacing.component);
+    expect(densityModes.default.control).toEqual({
+      height: { sm: '2rem', md: '2.5rem', lg: '3rem' },
+      paddingX: { sm: '0.75rem', md: '1rem', lg: '1.5rem' },
+      fontSize: { sm: '0.75rem', md: '0.875rem', lg: '1rem' },
+    });
+  });
+
+  it('rescales component spacing per mode', () => {
+    expect(densityUtils.getComponentSpacing('md', 'compact')).toBe('0.75rem');
+    expect(densityUtils.getComponentSpacing('md', 'comfortable')).toBe('1.25rem');
+    expect(scaleLength('24px', 0.75)).toBe('18px');
+    expect(() => scaleLength('auto', 2)).toThrow('Length "auto" must be in rem, px or em to scale');
+  });
+
+  it('orders control heights and font sizes from compact to comfortable', () => {
+    const rem = (value: string) => parseFloat(value);
+
+    for (const size of ['sm', 'md', 'lg'] as const) {
+      const heights = DENSITY_MODES.map(mode => rem(densityUtils.getControlHeight(size, mode)));
+      const fonts = DENSITY_MODES.map(mode => rem(densityModes[mode].control.fontSize[size]));
+      expect(heights).toEqual([...heights].sort((a, b) => a - b));
+      expect(fonts).toEqual([...fonts].sort((a, b) => a - b));
+    }
+  });
+
+  it('validates mode names', () => {
+    expect(densityUtils.isDensityMode('compact')).toBe(true);
+    expect(densityUtils.isDensityMode('dense')).toBe(false);
+    expect(() => buildDensityTokens('dense' as DensityMode)).toThrow('Density "dense" not found');
+  });
+});
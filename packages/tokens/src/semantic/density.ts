@@ -0,0 +1,123 @@
+/**
+ * Boombox Design System - Density Modes
+ *
+ * Density is a token dimension next to light/dark: the same components render
+ * tighter on admin tables and dispatch screens (compact) and roomier in the
+ * customer quote flow (comfortable).
+ *
+ * What each mode rescales:
+ * - spacing.component - multiplied by the mode's spacing scale
+ * - control heights and horizontal padding (buttons, inputs, selects) per size
+ * - control font sizes - compact steps one size down the type scale, comfortable one up
+ *
+ * CSS output scopes each mode under `[data-density="<mode>"]` so a subtree
+ * switches density by setting one attribute; `:root` carries the default mode.
+ */
+
+import { spacing } from '../base/spacing';
+import { typography } from '../base/typography';
+
+export const DENSITY_MODES = ['compact', 'default', 'comfortable'] as const;
+
+export type DensityMode = typeof DENSITY_MODES[number];
+export type ControlSize = 'sm' | 'md' | 'lg';
+export type ComponentSpacingStep = keyof typeof spacing.component;
+
+export const DEFAULT_DENSITY: DensityMode = 'default';
+
+// Density-dependent tokens resolved for one mode
+export interface DensityTokens {
+  spacing: {
+    component: Record<ComponentSpacingStep, string>;
+  };
+  control: {
+    height: Record<ControlSize, string>;
+    paddingX: Record<ControlSize, string>;
+    fontSize: Record<ControlSize, string>;
+  };
+}
+
+// Component spacing multiplier per mode
+export const densitySpacingScale: Record<DensityMode, number> = {
+  compact: 0.75,
+  default: 1,
+  comfortable: 1.25,
+};
+
+// Control heights per mode - default matches Button's original h-8 / h-10 / h-12
+const controlHeights: Record<DensityMode, Record<ControlSize, string>> = {
+  compact: { sm: '1.75rem', md: '2rem', lg: '2.5rem' },        // 28 / 32 / 40px - admin tables, dispatch
+  default: { sm: '2rem', md: '2.5rem', lg: '3rem' },           // 32 / 40 / 48px
+  comfortable: { sm: '2.5rem', md: '3rem', lg: '3.5rem' },     // 40 / 48 / 56px - quote flow, touch targets
+};
+
+// Control horizontal padding per mode - default matches px-3 / px-4 / px-6
+const controlPaddingX: Record<DensityMode, Record<ControlSize, string>> = {
+  compact: { sm: '0.5rem', md: '0.75rem', lg: '1rem' },
+  default: { sm: '0.75rem', md: '1rem', lg: '1.5rem' },
+  comfortable: { sm: '1rem', md: '1.25rem', lg: '2rem' },
+};
+
+// Control font sizes per mode as type scale steps - default matches text-xs / text-sm / text-base
+const controlFontSteps: Record<DensityMode, Record<ControlSize, keyof typeof typography.fontSize>> = {
+  compact: { sm: 'xs', md: 'xs', lg: 'sm' },
+  default: { sm: 'xs', md: 'sm', lg: 'base' },
+  comfortable: { sm: 'sm', md: 'base', lg: 'lg' },
+};
+
+// Multiply a rem/px length, keeping its unit (1rem × 0.75 -> 0.75rem)
+export function scaleLength(value: string, factor: number): string {
+  const match = /^(-?\d*\.?\d+)(rem|px|em)$/.exec(value);
+  if (!match) {
+    throw new Error(`Length "${value}" must be in rem, px or em to scale`);
+  }
+  return `${Number((Number(match[1]) * factor).toFixed(4))}${match[2]}`;
+}
+
+// Map each entry of a record through a converter
+function mapRecord<K extends string, V, R>(record: Record<K, V>, convert: (value: V) => R): Record<K, R> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, convert(value as V)])
+  ) as Record<K, R>;
+}
+
+// Resolve the density-dependent tokens for a mode
+export function buildDensityTokens(mode: DensityMode): DensityTokens {
+  if (!DENSITY_MODES.includes(mode)) {
+    throw new Error(`Density "${mode}" not found`);
+  }
+
+  return {
+    spacing: {
+      component: mapRecord(spacing.component, value => scaleLength(value, densitySpacingScale[mode])),
+    },
+    control: {
+      height: controlHeights[mode],
+      paddingX: controlPaddingX[mode],
+      fontSize: mapRecord(controlFontSteps[mode], step => typography.fontSize[step][0]),
+    },
+  };
+}
+
+// Density tokens for every mode
+export const densityModes = Object.fromEntries(
+  DENSITY_MODES.map(mode => [mode, buildDensityTokens(mode)])
+) as Record<DensityMode, DensityTokens>;
+
+// Utility functions for density-aware values
+export const densityUtils = {
+  // Get a control height, e.g. getControlHeight('md', 'compact') -> '2rem'
+  getControlHeight: (size: ControlSize = 'md', mode: DensityMode = DEFAULT_DENSITY) => {
+    return densityModes[mode].control.height[size];
+  },
+
+  // Get component padding for a mode
+  getComponentSpacing: (step: ComponentSpacingStep, mode: DensityMode = DEFAULT_DENSITY) => {
+    return densityModes[mode].spacing.component[step];
+  },
+
+  // Check whether a string is a known density mode (e.g. a data-density attribute value)
+  isDensityMode: (value: unknown): value is DensityMode => {
+    return typeof value === 'string' && (DENSITY_MODES as readonly string[]).includes(value);
+  },
+} as const;
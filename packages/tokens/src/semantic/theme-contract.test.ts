@@ -0,0 +1,45 @@
+import { colors } from '../base/colors';
+import { assertTheme, getThemeSlotPaths, validateTheme } from './theme-contract';
+import { lightTheme } from './theme-light';
+import { darkTheme } from './theme-dark';
+import { forcedColorsTheme, highContrastTheme } from './theme-high-contrast';
+
+describe('Theme contract', () => {
+  it('lists every slot path', () => {
+    const paths = getThemeSlotPaths();
+    expect(paths).toContain('colors.surface.default');
+    expect(paths).toContain('colors.interactive.primary.hover');
+    expect(paths).toContain('colors.feedback.warning.onSolid');
+    expect(paths).toContain('focus.width');
+    expect(paths).toContain('borderWidth.strong');
+    expect(paths).toContain('elevation.xl');
+  });
+
+  it.each([
+    ['light', lightTheme],
+    ['dark', darkTheme],
+    ['high-contrast', highContrastTheme],
+    ['forced-colors', forcedColorsTheme],
+  ])('%s theme fills every slot', (name, theme) => {
+    expect(validateTheme(theme)).toEqual([]);
+    expect(() => assertTheme(theme, name)).not.toThrow();
+  });
+
+  it('builds themes from base color tokens', () => {
+    expect(lightTheme.colors.interactive.primary.default).toBe(colors.primary[950]);
+    expect(darkTheme.colors.surface.default).toBe(colors.primary[950]);
+  });
+
+  it('reports missing and empty slots', () => {
+    const broken = {
+      ...lightTheme,
+      colors: { ...lightTheme.colors, text: { ...lightTheme.colors.text, link: '' } },
+      focus: { color: '#000' },
+    };
+
+    expect(validateTheme(broken)).toEqual(['colors.text.link', 'focus.width', 'focus.offset']);
+    expect(() => assertTheme(broken, 'broken')).toThrow(
+      'Theme "broken" is missing slots: colors.text.link, focus.width, focus.offset'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Boombox Design System - Theme Contract
+ *
+ * Every slot a semantic theme must fill. Light, dark, high contrast and any brand theme are
+ * built against this contract, so components can rely on a slot existing in
+ * every mode instead of falling back to hardcoded values.
+ *
+ * The slot list is a runtime object so themes assembled at runtime (brand
+ * overrides, imported JSON) can be validated the same way the compiler
+ * validates the `satisfies ThemeContract` themes.
+ *
+ * Slot groups:
+ * - surface: page, card and overlay backgrounds
+ * - text: content colors, including inverse and link
+ * - border: neutral and interactive border colors (borders.colors/borders.states)
+ * - interactive: primary/secondary control colors per state
+ * - feedback: success/error/warning/info containers, text and solid fills
+ * - focus: focus ring color, width and offset (borders.rings)
+ * - borderWidth: default and strong border widths (borders.width)
+ * - elevation: shadow depth scale (shadows.elevation)
+ */
+
+import { flattenTokens } from '../utils/token-transformer';
+
+const interactiveSlots = ['default', 'hover', 'active', 'disabled', 'foreground'] as const;
+const feedbackSlots = ['background', 'border', 'foreground', 'solid', 'onSolid'] as const;
+
+export const themeContract = {
+  colors: {
+    surface: ['default', 'subtle', 'muted', 'raised', 'sunken', 'overlay', 'inverse'],
+    text: ['primary', 'secondary', 'muted', 'disabled', 'inverse', 'link'],
+    border: ['default', 'subtle', 'hover', 'active', 'strong', 'disabled'],
+    interactive: {
+      primary: interactiveSlots,
+      secondary: interactiveSlots,
+    },
+    feedback: {
+      success: feedbackSlots,
+      error: feedbackSlots,
+      warning: feedbackSlots,
+      info: feedbackSlots,
+    },
+  },
+  focus: ['color', 'width', 'offset'],
+  borderWidth: ['default', 'strong'],
+  elevation: ['none', 'sm', 'md', 'lg', 'xl'],
+} as const;
+
+// Turn slot name lists into string-valued objects
+type ContractShape<T> = T extends readonly string[]
+  ? { readonly [K in T[number]]: string }
+  : { readonly [K in keyof T]: ContractShape<T[K]> };
+
+// Type exports for TypeScript usage
+export type ThemeContract = ContractShape<typeof themeContract>;
+export type ThemeMode = 'light' | 'dark';
+
+// Every built-in theme - high contrast stands apart from the light/dark brand modes
+export type ThemeName = ThemeMode | 'high-contrast';
+
+// Get the dot-separated path of every slot in the contract
+export function getThemeSlotPaths(): string[] {
+  return flattenTokens(themeContract).flatMap(({ path, value }) =>
+    (value as readonly string[]).map(slot => [...path, slot].join('.'))
+  );
+}
+
+// List contract slots that are missing or empty in a theme
+export function validateTheme(theme: unknown): string[] {
+  return getThemeSlotPaths().filter(path => {
+    const value = path.split('.').reduce<any>((node, key) => node?.[key], theme);
+    return typeof value !== 'string' || value.length === 0;
+  });
+}
+
+// Throw when a theme does not fill every contract slot
+export function assertTheme(theme: unknown, name: string = 'theme'): asserts theme is ThemeContract {
+  const missing = validateTheme(theme);
+  if (missing.length > 0) {
+    throw new Error(`Theme "${name}" is missing slots: ${missing.join(', ')}`);
+  }
+}
@@ -1,12 +1,100 @@
 // Dark theme semantic tokens for the Boombox Design System
+//
+// White text on solid feedback fills needs the 700 steps to meet WCAG AA.
+import { colors } from '../base/colors';
+import { borders } from '../base/borders';
+import { shadows } from '../base/shadows';
+import type { ThemeContract } from './theme-contract';
+
 export const darkTheme = {
   colors: {
-    background: '#000000',
-    foreground: '#ffffff',
-    primary: '#60a5fa',
-    secondary: '#9ca3af',
-    accent: '#a78bfa',
-    muted: '#1f2937',
-    border: '#374151',
-  },
-} as const;
+    surface: {
+      default: colors.primary[950],            // Page background
+      subtle: colors.primary[800],             // Alternate sections
+      muted: colors.primary[800],              // Inputs and card fills
+      raised: colors.primary[800],             // Cards, dropdowns, modals
+      sunken: colors.base.black,               // Skeleton loaders, wells
+      overlay: shadows.components.modal.backdrop, // Modal backdrop
+      inverse: colors.primary[50],             // Light bands on dark pages
+    },
+    text: {
+      primary: colors.primary[50],
+      secondary: colors.primary[300],
+      muted: colors.primary[400],
+      disabled: colors.primary[500],
+      inverse: colors.primary[950],
+      link: colors.semantic.info[500],
+    },
+    border: {
+      default: colors.primary[700],
+      subtle: colors.primary[800],
+      hover: colors.primary[500],
+      active: colors.primary[400],
+      strong: colors.primary[50],
+      disabled: colors.primary[800],
+    },
+    interactive: {
+      primary: {
+        default: colors.primary[50],
+        hover: colors.primary[100],
+        active: colors.primary[400],
+        disabled: colors.primary[700],
+        foreground: colors.primary[950],
+      },
+      secondary: {
+        default: colors.primary[800],
+        hover: colors.primary[700],
+        active: colors.primary[500],
+        disabled: colors.primary[800],
+        foreground: colors.primary[50],
+      },
+    },
+    feedback: {
+      success: {
+        background: colors.primary[800],
+        border: colors.semantic.success[500],
+        foreground: colors.semantic.success[200],
+        solid: colors.semantic.success[700],
+        onSolid: colors.base.white,
+      },
+      error: {
+        background: colors.primary[800],
+        border: colors.semantic.error[500],
+        foreground: colors.semantic.error[200],
+        solid: colors.semantic.error[600],
+        onSolid: colors.base.white,
+      },
+      warning: {
+        background: colors.primary[800],
+        border: colors.semantic.warning[400],
+        foreground: colors.semantic.warning[200],
+        solid: colors.semantic.warning[400],
+        onSolid: colors.primary[950],
+      },
+      info: {
+        background: colors.primary[800],
+        border: colors.semantic.info[500],
+        foreground: colors.semantic.info[200],
+        solid: colors.semantic.info[700],
+        onSolid: colors.base.white,
+      },
+    },
+  },
+  focus: {
+    color: colors.primary[50],
+    width: borders.rings.width.medium,
+    offset: borders.rings.offset.md,
+  },
+  borderWidth: {
+    default: borders.width.thin,
+    strong: borders.width.medium,
+  },
+  // Shadows read weaker on dark surfaces, so each step uses the next depth up
+  elevation: {
+    none: shadows.elevation.none,
+    sm: shadows.elevation.md,
+    md: shadows.elevation.lg,
+    lg: shadows.elevation.xl,
+    xl: shadows.elevation['2xl'],
+  },
+} as const satisfies ThemeContract;
@@ -0,0 +1,166 @@
+// High contrast theme semantic tokens for the Boombox Design System
+//
+// highContrastTheme - opt-in theme ([data-theme="high-contrast"]): black on white at WCAG AAA,
+// medium/thick borders, and no shadows, so separation never depends on elevation.
+//
+// forcedColorsTheme - applied under @media (forced-colors: active) (Windows High Contrast),
+// where the browser replaces colors with the user's palette. Slots map to CSS system colors
+// so custom properties used outside forced properties (SVG fills, gradients) follow the palette.
+import { colors, colorScales } from '../base/colors';
+import { borders } from '../base/borders';
+import { shadows } from '../base/shadows';
+import type { ThemeContract } from './theme-contract';
+
+export const FORCED_COLORS_QUERY = '(forced-colors: active)';
+
+// Feedback slots at AAA on white - text and solid fills from the 900 step
+function feedbackSlots(scale: Record<900 | 800, string>) {
+  return {
+    background: colors.base.white,
+    border: scale[800],
+    foreground: scale[900],
+    solid: scale[900],
+    onSolid: colors.base.white,
+  };
+}
+
+export const highContrastTheme = {
+  colors: {
+    surface: {
+      default: colors.base.white,              // Page background
+      subtle: colors.base.white,               // Alternate sections - separated by borders instead
+      muted: colors.base.white,                // Inputs and card fills
+      raised: colors.base.white,               // Cards, dropdowns, modals
+      sunken: colors.base.white,               // Skeleton loaders, wells
+      overlay: shadows.components.modal.backdrop, // Modal backdrop
+      inverse: colors.base.black,              // Dark bands
+    },
+    text: {
+      primary: colors.base.black,
+      secondary: colors.primary[950],
+      muted: colors.primary[800],
+      disabled: colors.primary[500],
+      inverse: colors.base.white,
+      link: colorScales.semantic.info[900],
+    },
+    border: {
+      default: colors.base.black,
+      subtle: colors.primary[700],
+      hover: colors.base.black,
+      active: colors.base.black,
+      strong: colors.base.black,
+      disabled: colors.primary[500],
+    },
+    interactive: {
+      primary: {
+        default: colors.base.black,
+        hover: colors.primary[800],
+        active: colors.primary[700],
+        disabled: colors.primary[500],
+        foreground: colors.base.white,
+      },
+      secondary: {
+        default: colors.base.white,
+        hover: colors.primary[100],
+        active: colors.secondary[200],
+        disabled: colors.base.white,
+        foreground: colors.base.black,
+      },
+    },
+    feedback: {
+      success: feedbackSlots(colorScales.semantic.success),
+      error: feedbackSlots(colorScales.semantic.error),
+      warning: feedbackSlots(colorScales.semantic.warning),
+      info: feedbackSlots(colorScales.semantic.info),
+    },
+  },
+  focus: {
+    color: colors.base.black,
+    width: borders.rings.width.thick,
+    offset: borders.rings.offset.md,
+  },
+  borderWidth: {
+    default: borders.width.medium,
+    strong: borders.width.thick,
+  },
+  // Borders carry all separation
+  elevation: {
+    none: shadows.elevation.none,
+    sm: shadows.elevation.none,
+    md: shadows.elevation.none,
+    lg: shadows.elevation.none,
+    xl: shadows.elevation.none,
+  },
+} as const satisfies ThemeContract;
+
+// System color slots for a feedback status - text and borders, inverted solid badges
+const forcedFeedbackSlots = {
+  background: 'Canvas',
+  border: 'CanvasText',
+  foreground: 'CanvasText',
+  solid: 'CanvasText',
+  onSolid: 'Canvas',
+} as const;
+
+// Controls keep ButtonFace fills in every state - hover and active show through Highlight borders
+const forcedInteractiveSlots = {
+  default: 'ButtonFace',
+  hover: 'ButtonFace',
+  active: 'ButtonFace',
+  disabled: 'ButtonFace',
+  foreground: 'ButtonText',
+} as const;
+
+export const forcedColorsTheme = {
+  colors: {
+    surface: {
+      default: 'Canvas',
+      subtle: 'Canvas',
+      muted: 'Field',
+      raised: 'Canvas',
+      sunken: 'Canvas',
+      overlay: 'Canvas',
+      inverse: 'CanvasText',
+    },
+    text: {
+      primary: 'CanvasText',
+      secondary: 'CanvasText',
+      muted: 'CanvasText',
+      disabled: 'GrayText',
+      inverse: 'Canvas',
+      link: 'LinkText',
+    },
+    border: {
+      default: 'CanvasText',
+      subtle: 'CanvasText',
+      hover: 'Highlight',
+      active: 'Highlight',
+      strong: 'CanvasText',
+      disabled: 'GrayText',
+    },
+    interactive: {
+      primary: forcedInteractiveSlots,
+      secondary: forcedInteractiveSlots,
+    },
+    feedback: {
+      success: forcedFeedbackSlots,
+      error: forcedFeedbackSlots,
+      warning: forcedFeedbackSlots,
+      info: forcedFeedbackSlots,
+    },
+  },
+  focus: {
+    color: 'Highlight',
+    width: borders.rings.width.medium,
+    offset: borders.rings.offset.md,
+  },
+  borderWidth: highContrastTheme.borderWidth,
+  // Forced colors drop box-shadow entirely
+  elevation: {
+    none: shadows.elevation.none,
+    sm: shadows.elevation.none,
+    md: shadows.elevation.none,
+    lg: shadows.elevation.none,
+    xl: shadows.elevation.none,
+  },
+} as const satisfies ThemeContract;
@@ -1,12 +1,99 @@
 // Light theme semantic tokens for the Boombox Design System
+//
+// Text, link and feedback slots come from the 600-700 steps, so every pairing meets WCAG AA.
+import { colors } from '../base/colors';
+import { borders } from '../base/borders';
+import { shadows } from '../base/shadows';
+import type { ThemeContract } from './theme-contract';
+
 export const lightTheme = {
   colors: {
-    background: '#ffffff',
-    foreground: '#000000',
-    primary: '#3b82f6',
-    secondary: '#6b7280',
-    accent: '#8b5cf6',
-    muted: '#f3f4f6',
-    border: '#e5e7eb',
-  },
-} as const;
+    surface: {
+      default: colors.base.white,              // Page background
+      subtle: colors.primary[50],              // Alternate sections
+      muted: colors.secondary[100],            // Inputs and card fills
+      raised: colors.base.white,               // Cards, dropdowns, modals
+      sunken: colors.secondary[50],            // Skeleton loaders, wells
+      overlay: shadows.components.modal.backdrop, // Modal backdrop
+      inverse: colors.primary[950],            // Dark bands on light pages
+    },
+    text: {
+      primary: colors.primary[950],
+      secondary: colors.primary[700],
+      muted: colors.primary[600],
+      disabled: colors.primary[400],
+      inverse: colors.primary[50],
+      link: colors.semantic.info[700],
+    },
+    border: {
+      default: borders.colors.default,         // slate-200
+      subtle: borders.colors.subtle,           // slate-100
+      hover: borders.colors.hover,             // slate-400
+      active: borders.colors.active,           // brand hover
+      strong: borders.colors.accent,           // zinc-950
+      disabled: colors.secondary[200],
+    },
+    interactive: {
+      primary: {
+        default: colors.primary[950],
+        hover: colors.primary[800],
+        active: colors.primary[700],
+        disabled: colors.primary[400],
+        foreground: colors.primary[50],
+      },
+      secondary: {
+        default: colors.secondary[100],
+        hover: colors.secondary[200],
+        active: colors.secondary[400],
+        disabled: colors.secondary[50],
+        foreground: colors.primary[950],
+      },
+    },
+    feedback: {
+      success: {
+        background: colors.semantic.success[100],
+        border: colors.semantic.success[200],
+        foreground: colors.semantic.success[700],
+        solid: colors.semantic.success[700],
+        onSolid: colors.base.white,
+      },
+      error: {
+        background: colors.semantic.error[50],
+        border: colors.semantic.error[200],
+        foreground: colors.semantic.error[700],
+        solid: colors.semantic.error[600],
+        onSolid: colors.base.white,
+      },
+      warning: {
+        background: colors.semantic.warning[50],
+        border: colors.semantic.warning[200],
+        foreground: colors.semantic.warning[700],
+        solid: colors.semantic.warning[400],
+        onSolid: colors.primary[950],
+      },
+      info: {
+        background: colors.semantic.info[100],
+        border: colors.semantic.info[200],
+        foreground: colors.semantic.info[700],
+        solid: colors.semantic.info[700],
+        onSolid: colors.base.white,
+      },
+    },
+  },
+  focus: {
+    color: borders.rings.colors.focus,
+    width: borders.rings.width.medium,
+    offset: borders.rings.offset.md,
+  },
+  borderWidth: {
+    default: borders.width.thin,
+    strong: borders.width.medium,
+  },
+  elevation: {
+    none: shadows.elevation.none,
+    sm: shadows.elevation.sm,
+    md: shadows.elevation.md,
+    lg: shadows.elevation.lg,
+    xl: shadows.elevation.xl,
+  },
+} as const satisfies ThemeContract;
@@ -0,0 +1,101 @@
+import { getColor, type ColorPath } from './base/colors';
+import { getSpacing } from './base/spacing';
+import { fluidClamp, getTypography, typographyUtils } from './base/typography';
+import { getZIndex } from './base/z-index';
+import { getMotion, motionUtils, reducedMotion } from './base/motion';
+import { shadows } from './base/shadows';
+import { getToken, type DesignTokenPath } from './tokens';
+
+// Compile-time check that two types are identical
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+const assertType = <T extends true>(value?: T) => value;
+
+describe('Token accessors', () => {
+  it('resolves token paths with exact return types', () => {
+    const brand = getColor('primary.950');
+    const zEmergency = getZIndex('maximum.emergency');
+
+    assertType<Equals<typeof brand, '#222222'>>();
+    assertType<Equals<typeof zEmergency, 10000>>();
+    expect(brand).toBe('#222222');
+    expect(zEmergency).toBe(10000);
+    expect(getZIndex('overlay.modal')).toBe(150);
+    expect(getSpacing('component.md')).toBe('1rem');
+  });
+
+  it('resolves groups where the getter allows them', () => {
+    const h1 = getTypography('headings.h1');
+    assertType<Equals<typeof h1.fontWeight, '600'>>();
+    expect(h1.fontSize).toBe('3.5rem');
+  });
+
+  it('resolves paths across every category with getToken', () => {
+    const md = getToken('borders.radius.md');
+    assertType<Equals<typeof md, '0.375rem'>>();
+    expect(md).toBe('0.375rem');
+    expect(getToken('colors.semantic.error.500')).toBe('#ef4444');
+    expect(getToken('zIndex.overlay')).toHaveProperty('modal', 150);
+  });
+
+  it('rejects invalid paths at compile time', () => {
+    // @ts-expect-error - primary has no 200 step
+    expect(() => getColor('primary.200')).toThrow('Color path "primary.200" not found');
+    // @ts-expect-error - groups are not color values
+    expect(() => getColor('primary.950.x')).toThrow('not found');
+    // @ts-expect-error - unknown category
+    expect(() => getToken('radii.md')).toThrow('Token path "radii.md" not found');
+  });
+
+  it('exposes path types for component props', () => {
+    const accent: ColorPath = 'semantic.info.600';
+    const gap: DesignTokenPath = 'spacing.grid.md';
+    expect(getColor(accent)).toBe('#0891b2');
+    expect(getToken(gap)).toBe('1rem');
+  });
+});
+
+describe('Fluid typography', () => {
+  // Size a clamp() resolves to at a viewport width, for values in the generated form
+  const sizeAt = (clamp: string, width: number) => {
+    const [, min, slope, sign, intercept, max] = /^clamp\(([\d.]+)rem, ([\d.]+)vw ([+-]) ([\d.]+)rem, ([\d.]+)rem\)$/.exec(clamp) ?? [];
+    const preferred = (Number(slope) * width) / 100 + (sign === '-' ? -1 : 1) * Number(intercept) * 16;
+    return Math.min(Number(max) * 16, Math.max(Number(min) * 16, preferred));
+  };
+
+  it('matches the stepped sizes at the sm and xl screens', () => {
+    const [hero] = typographyUtils.getFluid('hero');
+    expect(sizeAt(hero, 640)).toBeCloseTo(48);
+    expect(sizeAt(hero, 1280)).toBeCloseTo(60);
+    expect(sizeAt(hero, 375)).toBe(48);
+    expect(sizeAt(hero, 1536)).toBe(60);
+  });
+
+  it('builds custom ranges from screen keys or pixel widths', () => {
+    expect(typographyUtils.buildFluidSize({ min: '16px', max: '24px', minViewport: 'md', maxViewport: '1280px' }))
+      .toBe('clamp(1rem, 1.5625vw + 0.25rem, 1.5rem)');
+    expect(fluidClamp({ min: '2rem', max: '1rem' })).toBe('clamp(1rem, -2.5vw + 3rem, 2rem)');
+  });
+
+  it('rejects unsupported units and inverted viewports', () => {
+    expect(() => fluidClamp({ min: '1em', max: '2rem' })).toThrow('Fluid size "1em" must be in px or rem');
+    expect(() => fluidClamp({ min: '1rem', max: '2rem', minViewport: 'xl', maxViewport: 'sm' }))
+      .toThrow('Fluid viewport "xl" must be narrower than "sm"');
+  });
+});
+
+describe('Motion', () => {
+  it('builds named transitions from the duration and easing scales', () => {
+    expect(getMotion('transition.overlayEnter')).toBe('opacity 200ms cubic-bezier(0, 0, 0.2, 1)');
+    expect(getMotion('animation.shimmer')).toBe('shimmer 1500ms linear infinite');
+    expect(shadows.utilities.transition).toBe('box-shadow 150ms cubic-bezier(0.42, 0, 0.58, 1)');
+    expect(motionUtils.buildTransition(['opacity', 'transform'], 'slow', 'enter'))
+      .toBe('opacity 300ms cubic-bezier(0, 0, 0.2, 1), transform 300ms cubic-bezier(0, 0, 0.2, 1)');
+  });
+
+  it('collapses every duration to zero for reduced motion', () => {
+    expect(Object.values(reducedMotion.duration).every(duration => duration === '0ms')).toBe(true);
+    expect(reducedMotion.transition.toastSlide).toBe('transform 0ms cubic-bezier(0.2, 0, 0, 1), opacity 0ms cubic-bezier(0.2, 0, 0, 1)');
+    expect(motionUtils.getDurationMs('slow')).toBe(300);
+    expect(motionUtils.getDurationMs('slow', true)).toBe(0);
+  });
+});
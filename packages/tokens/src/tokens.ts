@@ -0,0 +1,54 @@
+/**
+ * Boombox Design System - Token Tree
+ *
+ * Single object holding every base token category. Generators and
+ * exporters walk this tree instead of importing each category by hand, so a
+ * new category only needs to be registered here.
+ */
+
+import { colors } from './base/colors';
+import { typography } from './base/typography';
+import { spacing } from './base/spacing';
+import { borders, borderReferences } from './base/borders';
+import { shadows, shadowReferences } from './base/shadows';
+import { breakpoints } from './base/breakpoints';
+import { zIndex } from './base/z-index';
+import { motion, motionReferences } from './base/motion';
+import { getTokenValue, type TokenNodePath, type TokenPath, type TokenValue } from './utils/token-transformer';
+
+export const tokens = {
+  colors,
+  typography,
+  spacing,
+  borders,
+  shadows,
+  breakpoints,
+  zIndex,
+  motion,
+} as const;
+
+// Token tree with alias references kept, e.g. borders.colors.default -> '{colors.secondary.200}'
+export const tokenReferences = {
+  ...tokens,
+  borders: borderReferences,
+  shadows: shadowReferences,
+  motion: motionReferences,
+} as const;
+
+// Type exports for TypeScript usage
+export type DesignTokens = typeof tokens;
+export type TokenCategory = keyof DesignTokens;
+
+// Every valid token path, e.g. 'colors.primary.950' - reusable in component props
+export type DesignTokenPath = TokenPath<DesignTokens>;
+
+// Every valid token path including groups, e.g. 'typography.headings.h1'
+export type DesignTokenNodePath = TokenNodePath<DesignTokens>;
+
+// Get any token group or value with an exact return type, e.g. getToken('spacing.component.md')
+export function getToken<P extends DesignTokenNodePath>(path: P): TokenValue<DesignTokens, P> {
+  return getTokenValue(tokens, path);
+}
+
+// Export default tokens object
+export default tokens;
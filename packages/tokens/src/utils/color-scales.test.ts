@@ -0,0 +1,48 @@
+import { colors, colorScales } from '../base/colors';
+import { parseColor, rgbToOklch } from './color';
+import { SCALE_STEPS, findLightnessOrderIssues, generateColorScale } from './color-scales';
+
+const lightness = (value: string) => rgbToOklch(parseColor(value) ?? [0, 0, 0, 1])[0];
+
+describe('Color scale generation', () => {
+  it('fills every step from 50 to 950', () => {
+    const { scale, generated } = generateColorScale(colors.primary);
+
+    expect(Object.keys(scale).map(Number)).toEqual([...SCALE_STEPS]);
+    expect(generated).toEqual([200, 900]);
+    expect(generateColorScale(colors.semantic.info).generated).toEqual([50, 300, 400, 800, 900, 950]);
+  });
+
+  it('keeps hand-picked values exactly', () => {
+    for (const [name, anchors] of Object.entries({ ...colors.semantic, primary: colors.primary, secondary: colors.secondary })) {
+      const { scale } = generateColorScale(anchors as Record<string, string>);
+      for (const [step, value] of Object.entries(anchors)) {
+        expect([name, scale[Number(step) as keyof typeof scale]]).toEqual([name, value]);
+      }
+    }
+  });
+
+  it('generates steps in lightness order between their neighbours', () => {
+    const { secondary, primary } = colorScales;
+    expect(lightness(primary[600])).toBeLessThan(lightness(primary[500]));
+    expect(lightness(primary[600])).toBeGreaterThan(lightness(primary[700]));
+    expect(lightness(secondary[950])).toBeLessThan(lightness(secondary[900]));
+  });
+
+  it('reports no lightness order issues for the brand scales', () => {
+    const scales = [colorScales.primary, colorScales.secondary, ...Object.values(colorScales.semantic)];
+    expect(scales.flatMap(scale => findLightnessOrderIssues(scale))).toEqual([]);
+  });
+
+  it('flags steps that break lightness order', () => {
+    const { issues } = generateColorScale({ 100: '#333333', 500: '#eeeeee' });
+    expect(issues.map(issue => issue.step)).toContain(500);
+    expect(issues[0].message).toMatch(/^Step \d+ \(L [\d.]+\) is not darker than step \d+/);
+  });
+
+  it('rejects invalid anchors', () => {
+    expect(() => generateColorScale({})).toThrow('Color scale needs at least one anchor');
+    expect(() => generateColorScale({ 150: '#ffffff' } as never)).toThrow('Scale step "150" is not one of');
+    expect(() => generateColorScale({ 500: 'teal' })).toThrow('Color "teal" is not supported in a color scale');
+  });
+});
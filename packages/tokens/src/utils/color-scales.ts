@@ -0,0 +1,173 @@
+/**
+ * Boombox Design System - Color Scale Generation
+ *
+ * Fills the missing steps of a 50-950 color ramp from the hand-picked
+ * anchor values, working in OKLCH so generated steps are spaced by perceived
+ * lightness rather than by hex arithmetic.
+ *
+ * Rules:
+ * - anchor values are copied through unchanged
+ * - steps between two anchors interpolate lightness, chroma and hue (shortest arc),
+ *   positioned along a reference lightness curve modelled on Tailwind's zinc ramp
+ * - steps beyond the outermost anchors follow the reference curve towards white or black
+ * - generated colors are chroma-reduced until they fit the sRGB gamut
+ * - every step must be darker than the one before it; breaks are reported as issues
+ */
+
+import { parseColor, rgbToOklch, oklchToRgb, toHexColor, type OKLCH } from './color';
+
+export const SCALE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+export type ScaleStep = typeof SCALE_STEPS[number];
+export type ColorScaleAnchors = Partial<Record<ScaleStep, string>>;
+export type CompleteColorScale = Record<ScaleStep, string>;
+
+// Anchors keep their exact literal types, generated steps are strings
+export type GeneratedScale<A extends ColorScaleAnchors> = Omit<CompleteColorScale, keyof A> & A;
+
+export interface ColorScaleIssue {
+  step: ScaleStep;
+  message: string;
+}
+
+export interface GeneratedColorScale<A extends ColorScaleAnchors = ColorScaleAnchors> {
+  scale: GeneratedScale<A>;
+  generated: ScaleStep[];       // Steps that were not hand-picked
+  issues: ColorScaleIssue[];    // Lightness order breaks
+}
+
+// Reference OKLCH lightness per step (Tailwind zinc) - positions steps between and beyond anchors
+export const referenceLightness: Record<ScaleStep, number> = {
+  50: 0.985,
+  100: 0.967,
+  200: 0.92,
+  300: 0.871,
+  400: 0.705,
+  500: 0.552,
+  600: 0.442,
+  700: 0.37,
+  800: 0.274,
+  900: 0.21,
+  950: 0.141,
+};
+
+// Chroma below which a color is treated as neutral gray
+const GRAY_CHROMA = 0.005;
+
+// Interpolate hue along the shorter arc
+function mixHue(from: number, to: number, t: number): number {
+  const delta = ((to - from + 540) % 360) - 180;
+  return (from + delta * t + 360) % 360;
+}
+
+// Interpolate between two anchors, positioned along the reference curve
+function interpolate(step: ScaleStep, [lowStep, low]: [ScaleStep, OKLCH], [highStep, high]: [ScaleStep, OKLCH]): OKLCH {
+  const t = (referenceLightness[lowStep] - referenceLightness[step]) /
+    (referenceLightness[lowStep] - referenceLightness[highStep]);
+
+  // Gray anchors have no meaningful hue - borrow the other anchor's
+  const lowHue = low[1] < GRAY_CHROMA && high[1] >= GRAY_CHROMA ? high[2] : low[2];
+  const highHue = high[1] < GRAY_CHROMA && low[1] >= GRAY_CHROMA ? low[2] : high[2];
+
+  return [
+    low[0] + (high[0] - low[0]) * t,
+    low[1] + (high[1] - low[1]) * t,
+    mixHue(lowHue, highHue, t),
+  ];
+}
+
+// Extrapolate past the outermost anchor, scaling the reference curve to meet it
+function extrapolate(step: ScaleStep, [anchorStep, [L, C, H]]: [ScaleStep, OKLCH]): OKLCH {
+  const reference = referenceLightness[step];
+  const anchorReference = referenceLightness[anchorStep];
+
+  if (reference > anchorReference) {
+    // Towards white - chroma fades with the remaining lightness
+    const lightness = 1 - (1 - reference) * ((1 - L) / (1 - anchorReference));
+    return [lightness, C * ((1 - lightness) / Math.max(1 - L, 0.0001)), H];
+  }
+
+  // Towards black - keep at least half the anchor chroma so dark steps stay tinted
+  const lightness = reference * (L / anchorReference);
+  return [lightness, C * (0.5 + 0.5 * (lightness / L)), H];
+}
+
+// OKLCH lightness of a hex or rgb() color
+function lightnessOf(value: string): number {
+  const rgba = parseColor(value);
+  if (!rgba) {
+    throw new Error(`Color "${value}" is not supported in a color scale`);
+  }
+  return rgbToOklch(rgba)[0];
+}
+
+// Report every step that is not darker than the step before it
+export function findLightnessOrderIssues(scale: Partial<Record<ScaleStep, string>>): ColorScaleIssue[] {
+  const issues: ColorScaleIssue[] = [];
+  const steps = SCALE_STEPS.filter(step => scale[step] !== undefined);
+
+  steps.forEach((step, index) => {
+    if (index === 0) return;
+    const previous = steps[index - 1];
+    const lightness = lightnessOf(scale[step] as string);
+    const previousLightness = lightnessOf(scale[previous] as string);
+
+    if (lightness >= previousLightness) {
+      issues.push({
+        step,
+        message: `Step ${step} (L ${lightness.toFixed(3)}) is not darker than step ${previous} (L ${previousLightness.toFixed(3)})`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+// Generate a complete 50-950 ramp from hand-picked anchor steps
+export function generateColorScale<A extends ColorScaleAnchors>(anchors: A): GeneratedColorScale<A> {
+  const points: [ScaleStep, OKLCH][] = [];
+
+  for (const [key, value] of Object.entries(anchors)) {
+    const step = Number(key) as ScaleStep;
+    if (!SCALE_STEPS.includes(step)) {
+      throw new Error(`Scale step "${key}" is not one of ${SCALE_STEPS.join(', ')}`);
+    }
+
+    const rgba = parseColor(value as string);
+    if (!rgba) {
+      throw new Error(`Color "${value}" is not supported in a color scale`);
+    }
+    points.push([step, rgbToOklch(rgba)]);
+  }
+
+  if (!points.length) {
+    throw new Error('Color scale needs at least one anchor');
+  }
+  points.sort(([a], [b]) => a - b);
+
+  const scale: Partial<Record<ScaleStep, string>> = {};
+  const generated: ScaleStep[] = [];
+
+  for (const step of SCALE_STEPS) {
+    const anchor = anchors[step];
+    if (anchor !== undefined) {
+      scale[step] = anchor;
+      continue;
+    }
+
+    const lower = [...points].reverse().find(([anchorStep]) => anchorStep < step);
+    const upper = points.find(([anchorStep]) => anchorStep > step);
+    const color = lower && upper
+      ? interpolate(step, lower, upper)
+      : extrapolate(step, (lower ?? upper) as [ScaleStep, OKLCH]);
+
+    scale[step] = toHexColor(oklchToRgb(color));
+    generated.push(step);
+  }
+
+  return {
+    scale: scale as GeneratedScale<A>,
+    generated,
+    issues: findLightnessOrderIssues(scale),
+  };
+}
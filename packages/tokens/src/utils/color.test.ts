@@ -0,0 +1,80 @@
+import { colors } from '../base/colors';
+import { shadows, shadowUtils } from '../base/shadows';
+import { borders } from '../base/borders';
+import {
+  convertColor,
+  darken,
+  formatColor,
+  lighten,
+  mixColors,
+  parseColor,
+  rgbToOklch,
+  withAlpha,
+} from './color';
+
+const lightness = (value: string) => rgbToOklch(parseColor(value) ?? [0, 0, 0, 1])[0];
+
+describe('Color utilities', () => {
+  it('parses hex, rgb, hsl and oklch', () => {
+    expect(parseColor('#ef444480')).toEqual([239, 68, 68, 128 / 255]);
+    expect(parseColor('rgb(239 68 68 / 50%)')).toEqual([239, 68, 68, 0.5]);
+    expect(parseColor('hsl(0 100% 50%)')).toEqual([255, 0, 0, 1]);
+    expect(parseColor('hsla(120, 100%, 25%, 0.5)')).toEqual([0, 128, 0, 0.5]);
+    expect(parseColor('oklch(100% 0 0)')).toEqual([255, 255, 255, 1]);
+    expect(parseColor('teal')).toBeNull();
+  });
+
+  it('serializes to every format', () => {
+    expect(formatColor([255, 0, 0, 0.5], 'hex')).toBe('#ff000080');
+    expect(formatColor([255, 0, 0, 0.5], 'rgb')).toBe('rgb(255 0 0 / 0.5)');
+    expect(formatColor([255, 0, 0, 1], 'hsl')).toBe('hsl(0 100% 50%)');
+    expect(formatColor([255, 255, 255, 1], 'oklch')).toBe('oklch(1 0 0)');
+  });
+
+  it('round-trips palette colors through hsl and oklch', () => {
+    for (const value of [colors.semantic.error[500], colors.semantic.info[500], colors.secondary[400]]) {
+      expect(convertColor(convertColor(value, 'oklch'), 'hex')).toBe(value);
+      expect(convertColor(convertColor(value, 'hsl'), 'hex')).toBe(value);
+    }
+  });
+
+  it('applies alpha, replacing any existing alpha', () => {
+    expect(withAlpha('#222222', 0.1)).toBe('rgb(34 34 34 / 0.1)');
+    expect(withAlpha('rgb(0 0 0 / 0.5)', 0.2, 'hex')).toBe('#00000033');
+  });
+
+  it('mixes in OKLab', () => {
+    expect(mixColors('#000000', '#ffffff', 0)).toBe('#000000');
+    expect(mixColors('#000000', '#ffffff', 1)).toBe('#ffffff');
+    expect(lightness(mixColors('#000000', '#ffffff'))).toBeCloseTo(0.5, 2);
+  });
+
+  it('shifts lightness perceptually', () => {
+    const base = colors.primary[950];
+    expect(lightness(lighten(base, 0.2))).toBeCloseTo(lightness(base) + 0.2, 2);
+    expect(lightness(darken(colors.semantic.info[500], 0.1))).toBeCloseTo(lightness(colors.semantic.info[500]) - 0.1, 2);
+    expect(lighten('#ffffff', 0.1)).toBe('#ffffff');
+  });
+
+  it('rejects unsupported colors', () => {
+    expect(() => withAlpha('teal', 0.5)).toThrow('Color "teal" is not supported');
+    expect(() => mixColors('#fff', 'currentColor')).toThrow('Color "currentColor" is not supported');
+  });
+});
+
+describe('Derived shadow and border colors', () => {
+  it('derives tinted shadows from the palette', () => {
+    expect(shadows.colors.primary).toBe(withAlpha(colors.primary[950], 0.1));
+    expect(shadows.utilities.ringError).toBe(`0 0 0 2px ${withAlpha(colors.semantic.error[500], 0.1)}`);
+  });
+
+  it('builds shadows from any color format', () => {
+    expect(shadowUtils.buildShadow({})).toBe('0px 4px 6px -1px rgb(0 0 0 / 0.1)');
+    expect(shadowUtils.buildShadow({ color: 'hsl(0 84.2% 60.2%)', opacity: 0.2 })).toBe('0px 4px 6px -1px rgb(239 68 68 / 0.2)');
+  });
+
+  it('keeps border colors in sync with the palette', () => {
+    expect(borders.rings.colors.focus).toBe(colors.primary[950]);
+    expect(borders.states.error.border).toBe(`2px solid ${colors.semantic.error[500]}`);
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Boombox Design System - Color Utilities
+ *
+ * Color parsing, conversion and manipulation shared by the token modules
+ * (shadow and border colors derived from the palette) and the platform
+ * transforms that cannot use CSS color strings directly (email clients,
+ * React Native shadows).
+ *
+ * Supported inputs:
+ * - hex: #rgb, #rgba, #rrggbb, #rrggbbaa
+ * - rgb()/rgba() in legacy comma syntax and space/slash syntax
+ * - hsl()/hsla() in legacy comma syntax and space/slash syntax
+ * - oklch() with lightness as a number or percentage
+ *
+ * Mixing and tonal shifts work in OKLab/OKLCH so equal steps look equal,
+ * and results serialize to hex, rgb(), hsl() or oklch().
+ */
+
+// Red, green, blue (0-255) and alpha (0-1) channels
+export type RGBA = [number, number, number, number];
+
+const HEX_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const RGB_PATTERN = /^rgba?\(([^)]+)\)$/i;
+const HSL_PATTERN = /^hsla?\(([^)]+)\)$/i;
+const OKLCH_PATTERN = /^oklch\(([^)]+)\)$/i;
+
+// Output formats for serialized colors
+export type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'oklch';
+
+// Parse the channels of a hex color without the leading #
+function parseHexDigits(hex: string): RGBA {
+  const digits = hex.length <= 4 ? [...hex].map(digit => digit + digit) : hex.match(/.{2}/g) ?? [];
+  const [r, g, b, a = 'ff'] = digits;
+  return [parseInt(r, 16), parseInt(g, 16), parseInt(b, 16), parseInt(a, 16) / 255];
+}
+
+// Split color function arguments, parsing an optional alpha (number or percentage)
+function splitArgs(args: string): [string[], number] {
+  const [first, second, third, a = '1'] = args.split(/[\s,/]+/).filter(Boolean);
+  const alpha = a.endsWith('%') ? parseFloat(a) / 100 : parseFloat(a);
+  return [[first, second, third], alpha];
+}
+
+// Parse the arguments of rgb()/rgba()
+function parseRgbArgs(args: string): RGBA {
+  const [[r, g, b], alpha] = splitArgs(args);
+  return [Number(r), Number(g), Number(b), alpha];
+}
+
+// Parse the arguments of hsl()/hsla()
+function parseHslArgs(args: string): RGBA {
+  const [[h, s, l], alpha] = splitArgs(args);
+  const hue = ((parseFloat(h) % 360) + 360) % 360;
+  const saturation = parseFloat(s) / 100;
+  const lightness = parseFloat(l) / 100;
+
+  // CSS Color 4 hsl-to-rgb
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const a = saturation * Math.min(lightness, 1 - lightness);
+    return Math.round(255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4), alpha];
+}
+
+// Parse the arguments of oklch()
+function parseOklchArgs(args: string): RGBA {
+  const [[l, c, h], alpha] = splitArgs(args);
+  const lightness = l.endsWith('%') ? parseFloat(l) / 100 : parseFloat(l);
+  return oklchToRgb([lightness, parseFloat(c), parseFloat(h) || 0], alpha);
+}
+
+// Parse a hex, rgb(), hsl() or oklch() color, returns null for anything else
+export function parseColor(value: string): RGBA | null {
+  const trimmed = value.trim();
+  const hex = HEX_PATTERN.exec(trimmed);
+  if (hex) return parseHexDigits(hex[1]);
+
+  const rgb = RGB_PATTERN.exec(trimmed);
+  if (rgb) return parseRgbArgs(rgb[1]);
+
+  const hsl = HSL_PATTERN.exec(trimmed);
+  if (hsl) return parseHslArgs(hsl[1]);
+
+  const oklch = OKLCH_PATTERN.exec(trimmed);
+  if (oklch) return parseOklchArgs(oklch[1]);
+
+  return null;
+}
+
+// Parse a color, throwing for unsupported input
+function requireColor(value: string): RGBA {
+  const rgba = parseColor(value);
+  if (!rgba) {
+    throw new Error(`Color "${value}" is not supported`);
+  }
+  return rgba;
+}
+
+// Round alpha for serialization
+const roundAlpha = (alpha: number) => Number(alpha.toFixed(3));
+
+// Serialize to a 6-digit hex, ignoring alpha
+export function toHexColor([r, g, b]: RGBA): string {
+  return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Serialize to legacy comma-separated rgba()
+export function toRgbaColor([r, g, b, a]: RGBA): string {
+  return `rgba(${r}, ${g}, ${b}, ${roundAlpha(a)})`;
+}
+
+// Serialize to space-separated rgb(), with a slash alpha when translucent
+export function toRgbColor([r, g, b, a]: RGBA): string {
+  return a < 1 ? `rgb(${r} ${g} ${b} / ${roundAlpha(a)})` : `rgb(${r} ${g} ${b})`;
+}
+
+// Serialize to space-separated hsl(), with a slash alpha when translucent
+export function toHslColor([r, g, b, a]: RGBA): string {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  let hue = 0;
+  let saturation = 0;
+  if (delta) {
+    saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    if (max === red) hue = ((green - blue) / delta) % 6;
+    else if (max === green) hue = (blue - red) / delta + 2;
+    else hue = (red - green) / delta + 4;
+    hue = (hue * 60 + 360) % 360;
+  }
+
+  const channels = `${Number(hue.toFixed(1))} ${Number((saturation * 100).toFixed(1))}% ${Number((lightness * 100).toFixed(1))}%`;
+  return a < 1 ? `hsl(${channels} / ${roundAlpha(a)})` : `hsl(${channels})`;
+}
+
+// Serialize to oklch(), with a slash alpha when translucent
+export function toOklchColor(rgba: RGBA): string {
+  const [L, C, H] = rgbToOklch(rgba);
+  // Hue is meaningless for neutral grays
+  const hue = C < 0.0001 ? 0 : H;
+  const channels = `${Number(L.toFixed(4))} ${Number(C.toFixed(4))} ${Number(hue.toFixed(2))}`;
+  return rgba[3] < 1 ? `oklch(${channels} / ${roundAlpha(rgba[3])})` : `oklch(${channels})`;
+}
+
+// Serialize to the requested format - hex keeps alpha as #rrggbbaa when translucent
+export function formatColor(rgba: RGBA, format: ColorFormat = 'hex'): string {
+  switch (format) {
+    case 'rgb':
+      return toRgbColor(rgba);
+    case 'hsl':
+      return toHslColor(rgba);
+    case 'oklch':
+      return toOklchColor(rgba);
+    default:
+      return rgba[3] < 1
+        ? `${toHexColor(rgba)}${Math.round(rgba[3] * 255).toString(16).padStart(2, '0')}`
+        : toHexColor(rgba);
+  }
+}
+
+// Convert a color string to another format
+export function convertColor(value: string, format: ColorFormat): string {
+  return formatColor(requireColor(value), format);
+}
+
+// Composite a translucent color onto an opaque background
+export function compositeColor([r, g, b, a]: RGBA, background: RGBA): RGBA {
+  const blend = (channel: number, base: number) => Math.round(channel * a + base * (1 - a));
+  return [blend(r, background[0]), blend(g, background[1]), blend(b, background[2]), 1];
+}
+
+// WCAG 2.x relative luminance (0 = black, 1 = white)
+export function relativeLuminance([r, g, b]: RGBA): number {
+  const linear = (channel: number) => {
+    const srgb = channel / 255;
+    return srgb <= 0.03928 ? srgb / 12.92 : ((srgb + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+// OKLCH lightness (0-1), chroma (0-~0.4) and hue (degrees)
+export type OKLCH = [number, number, number];
+
+const toLinear = (channel: number) => {
+  const srgb = channel / 255;
+  return srgb <= 0.04045 ? srgb / 12.92 : ((srgb + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (channel: number) =>
+  255 * (channel <= 0.0031308 ? channel * 12.92 : 1.055 * channel ** (1 / 2.4) - 0.055);
+
+// Convert sRGB to OKLCH (Björn Ottosson's OKLab)
+export function rgbToOklch([r, g, b]: RGBA): OKLCH {
+  const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const bb = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  const hue = (Math.atan2(bb, a) * 180) / Math.PI;
+  return [L, Math.sqrt(a * a + bb * bb), hue < 0 ? hue + 360 : hue];
+}
+
+// Convert OKLCH to rectangular OKLab
+function toOklab([L, C, H]: OKLCH): [number, number, number] {
+  return [L, C * Math.cos((H * Math.PI) / 180), C * Math.sin((H * Math.PI) / 180)];
+}
+
+// Perceptual distance between two colors (OKLab ΔE, 0 = identical, ~1 = black vs white)
+export function colorDifference(from: RGBA, to: RGBA): number {
+  const [L1, a1, b1] = toOklab(rgbToOklch(from));
+  const [L2, a2, b2] = toOklab(rgbToOklch(to));
+  return Math.hypot(L2 - L1, a2 - a1, b2 - b1);
+}
+
+// Convert OKLCH to linear sRGB channels (0-1, may fall outside the gamut)
+function oklchToLinear([L, C, H]: OKLCH): [number, number, number] {
+  const a = C * Math.cos((H * Math.PI) / 180);
+  const b = C * Math.sin((H * Math.PI) / 180);
+
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+}
+
+// Check whether an OKLCH color can be shown in sRGB
+export function isInSrgbGamut(color: OKLCH): boolean {
+  return oklchToLinear(color).every(channel => channel >= -0.0001 && channel <= 1.0001);
+}
+
+// Convert OKLCH to sRGB, reducing chroma until the color fits the sRGB gamut
+export function oklchToRgb([lightness, chroma, hue]: OKLCH, alpha = 1): RGBA {
+  const L = Math.min(1, Math.max(0, lightness));
+  let C = chroma;
+
+  if (!isInSrgbGamut([L, C, hue])) {
+    let low = 0;
+    let high = C;
+    while (high - low > 0.0001) {
+      const mid = (low + high) / 2;
+      if (isInSrgbGamut([L, mid, hue])) low = mid;
+      else high = mid;
+    }
+    C = low;
+  }
+
+  const [r, g, b] = oklchToLinear([L, C, hue]).map(channel =>
+    Math.round(fromLinear(Math.min(1, Math.max(0, channel))))
+  );
+  return [r, g, b, alpha];
+}
+
+// Apply an alpha (0-1) to a color, replacing any alpha it already has
+export function withAlpha(value: string, alpha: number, format: ColorFormat = 'rgb'): string {
+  const [r, g, b] = requireColor(value);
+  return formatColor([r, g, b, Math.min(1, Math.max(0, alpha))], format);
+}
+
+// Mix two colors in OKLab - weight is the share of `to` (0 = from, 1 = to)
+export function mixColors(from: string, to: string, weight = 0.5, format: ColorFormat = 'hex'): string {
+  const start = requireColor(from);
+  const end = requireColor(to);
+  const [startL, startA, startB] = toOklab(rgbToOklch(start));
+  const [endL, endA, endB] = toOklab(rgbToOklch(end));
+  const mix = (a: number, b: number) => a + (b - a) * weight;
+
+  const L = mix(startL, endL);
+  const a = mix(startA, endA);
+  const b = mix(startB, endB);
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+
+  return formatColor(oklchToRgb([L, Math.sqrt(a * a + b * b), hue < 0 ? hue + 360 : hue], mix(start[3], end[3])), format);
+}
+
+// Raise OKLCH lightness by an absolute amount (0-1), keeping chroma and hue
+export function lighten(value: string, amount: number, format: ColorFormat = 'hex'): string {
+  const rgba = requireColor(value);
+  const [L, C, H] = rgbToOklch(rgba);
+  return formatColor(oklchToRgb([L + amount, C, H], rgba[3]), format);
+}
+
+// Lower OKLCH lightness by an absolute amount (0-1), keeping chroma and hue
+export function darken(value: string, amount: number, format: ColorFormat = 'hex'): string {
+  return lighten(value, -amount, format);
+}
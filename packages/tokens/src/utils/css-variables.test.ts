@@ -0,0 +1,117 @@
+import { colors } from '../base/colors';
+import { darkTheme } from '../semantic/theme-dark';
+import { highContrastTheme } from '../semantic/theme-high-contrast';
+import {
+  buildDensityVariables,
+  buildReducedMotionVariables,
+  buildThemeVariables,
+  buildTokenVariables,
+  cssVar,
+  cssVariableNames,
+  generateCssVariables,
+  toCssVariableName,
+} from './css-variables';
+
+describe('CSS variables', () => {
+  describe('toCssVariableName', () => {
+    it('singularises the category and kebab-cases keys', () => {
+      expect(toCssVariableName('colors.primary.950')).toBe('--bb-color-primary-950');
+      expect(toCssVariableName('zIndex.navigation.mobileMenu')).toBe('--bb-z-index-navigation-mobile-menu');
+      expect(toCssVariableName('theme.colors.surface.default')).toBe('--bb-theme-colors-surface-default');
+    });
+  });
+
+  describe('buildTokenVariables', () => {
+    const variables = buildTokenVariables();
+
+    it('emits a variable for every category', () => {
+      expect(variables['--bb-color-primary-950']).toBe(colors.primary[950]);
+      expect(variables['--bb-spacing-component-md']).toBe('1rem');
+      expect(variables['--bb-border-radius-md']).toBe('0.375rem');
+      expect(variables['--bb-shadow-elevation-custom']).toBe('0px 6px 20px 0px rgba(0, 0, 0, 0.2)');
+      expect(variables['--bb-breakpoint-screens-lg']).toBe('1024px');
+      expect(variables['--bb-z-index-overlay-modal']).toBe('150');
+    });
+
+    it('joins font stacks and quotes names with spaces', () => {
+      expect(variables['--bb-typography-font-family-mono']).toContain('"Courier New", monospace');
+    });
+
+    it('splits font size tuples into size and line height', () => {
+      expect(variables['--bb-typography-font-size-sm']).toBe('0.875rem');
+      expect(variables['--bb-typography-font-size-sm-line-height']).toBe('1.25rem');
+      expect(variables['--bb-typography-fluid-section']).toBe('clamp(1.5rem, 1.875vw + 0.75rem, 2.25rem)');
+      expect(variables['--bb-typography-fluid-section-line-height']).toBe('1.25');
+    });
+  });
+
+  describe('generateCssVariables', () => {
+    it('renders a root block and a dark theme override block', () => {
+      const css = generateCssVariables();
+      expect(css).toContain(':root {\n  --bb-color-base-white: #ffffff;');
+      expect(css).toContain(`[data-theme="dark"] {\n  --bb-theme-colors-surface-default: ${darkTheme.colors.surface.default};`);
+    });
+
+    it('only overrides theme variables in the dark block', () => {
+      const dark = generateCssVariables().split('[data-theme="dark"]')[1];
+      expect(dark).not.toContain('--bb-color-');
+      expect(Object.keys(buildThemeVariables(darkTheme)).every(name => dark.includes(name))).toBe(true);
+    });
+
+    it('renders the high contrast theme with strengthened borders and no shadows', () => {
+      const highContrast = generateCssVariables().split('[data-theme="high-contrast"] {')[1];
+      expect(highContrast).toContain(`--bb-theme-colors-text-primary: ${highContrastTheme.colors.text.primary};`);
+      expect(highContrast).toContain('--bb-theme-border-width-default: 2px;');
+      expect(highContrast).toContain('--bb-theme-elevation-md: none;');
+    });
+
+    it('maps theme variables to system colors under forced colors', () => {
+      const forced = generateCssVariables().split('@media (forced-colors: active) {')[1];
+      expect(forced).toContain(':root,\n  [data-theme] {\n    --bb-theme-colors-surface-default: Canvas;');
+      expect(forced).toContain('--bb-theme-colors-border-hover: Highlight;');
+      expect(forced).toContain('--bb-theme-focus-color: Highlight;');
+      expect(forced).toContain(':focus-visible {\n    outline: var(--bb-theme-focus-width) solid var(--bb-theme-focus-color);');
+      expect(generateCssVariables({ forcedColors: false })).not.toContain('forced-colors');
+    });
+
+    it('collapses motion durations under prefers-reduced-motion', () => {
+      const reduced = generateCssVariables().split('@media (prefers-reduced-motion: reduce)')[1];
+      expect(reduced).toContain('  :root {\n    --bb-motion-duration-fast: 0ms;');
+      expect(reduced).toContain('--bb-motion-transition-overlay-enter: opacity 0ms cubic-bezier(0, 0, 0.2, 1);');
+      expect(reduced).not.toContain('--bb-motion-easing-');
+      expect(generateCssVariables({ reducedMotion: false })).not.toContain('prefers-reduced-motion');
+    });
+
+    it('only overrides durations when transitions reference them', () => {
+      expect(Object.keys(buildReducedMotionVariables('css-var')).every(name => name.startsWith('--bb-motion-duration-'))).toBe(true);
+      expect(buildTokenVariables('css-var')['--bb-motion-transition-overlay-exit'])
+        .toBe('opacity var(--bb-motion-duration-fast) var(--bb-motion-easing-exit)');
+    });
+
+    it('scopes density modes under data-density with the default on the root', () => {
+      const css = generateCssVariables();
+      expect(css).toContain(':root,\n[data-density="default"] {\n  --bb-density-spacing-component-xs: 0.25rem;');
+      expect(css).toContain('[data-density="compact"] {\n  --bb-density-spacing-component-xs: 0.1875rem;');
+      expect(css).toContain('[data-density="comfortable"] {');
+      expect(css.indexOf('[data-density="compact"] {')).toBeGreaterThan(css.indexOf(':root,\n[data-density="default"] {'));
+      expect(css.indexOf('[data-density="comfortable"] {')).toBeGreaterThan(css.indexOf(':root,\n[data-density="default"] {'));
+      expect(generateCssVariables({ density: false })).not.toContain('data-density');
+      expect(buildDensityVariables('compact')['--bb-density-control-height-md']).toBe('2rem');
+      expect(cssVar('density.control.height.md')).toBe('var(--bb-density-control-height-md)');
+    });
+
+    it('supports custom selectors', () => {
+      const css = generateCssVariables({ rootSelector: '.bb-root', darkSelector: '.bb-dark' });
+      expect(css.startsWith('.bb-root {')).toBe(true);
+      expect(css).toContain('.bb-dark {');
+    });
+  });
+
+  describe('cssVar', () => {
+    it('maps token paths to variable references', () => {
+      expect(cssVariableNames['colors.primary.950']).toBe('--bb-color-primary-950');
+      expect(cssVar('colors.primary.950')).toBe('var(--bb-color-primary-950)');
+      expect(cssVar('theme.colors.border.default', '#e2e8f0')).toBe('var(--bb-theme-colors-border-default, #e2e8f0)');
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Boombox Design System - CSS Custom Properties
+ *
+ * Generates `--bb-*` custom properties from every token category plus the
+ * semantic light/dark/high contrast themes, so apps can reference tokens through
+ * `var(--bb-color-primary-950)` instead of hardcoding hex values.
+ *
+ * Naming:
+ * - Category names are singularised: colors -> color, shadows -> shadow
+ * - camelCase keys become kebab-case: zIndex.overlay.mobileMenu -> --bb-z-index-overlay-mobile-menu
+ * - Theme tokens live under `theme`: lightTheme.colors.surface.default -> --bb-theme-colors-surface-default
+ * - Density tokens live under `density`: control.height.md -> --bb-density-control-height-md
+ *
+ * Output:
+ * - `:root` holds every base token and the light theme
+ * - `[data-theme="dark"]` and `[data-theme="high-contrast"]` override the theme variables only
+ * - `:root` and `[data-density="<mode>"]` hold the density variables for each mode
+ * - `@media (prefers-reduced-motion: reduce)` overrides the motion variables that change
+ *   when durations collapse to zero
+ * - `@media (forced-colors: active)` maps the theme variables to system colors and draws
+ *   focus rings as outlines, since forced colors drop box-shadow rings
+ *
+ * References:
+ * - 'resolved' (default) writes final values: --bb-border-colors-default: #e2e8f0
+ * - 'css-var' keeps aliases live: --bb-border-colors-default: var(--bb-color-secondary-200)
+ */
+
+import { tokens, tokenReferences } from '../tokens';
+import { lightTheme } from '../semantic/theme-light';
+import { darkTheme } from '../semantic/theme-dark';
+import { forcedColorsTheme, highContrastTheme, FORCED_COLORS_QUERY } from '../semantic/theme-high-contrast';
+import { motion, motionReferences, reducedMotion, reducedMotionReferences, REDUCED_MOTION_QUERY } from '../base/motion';
+import type { ThemeContract } from '../semantic/theme-contract';
+import { DEFAULT_DENSITY, DENSITY_MODES, densityModes, type DensityMode, type DensityTokens } from '../semantic/density';
+import { flattenTokens, toKebabCase, type TokenLeaf, type TokenPath } from './token-transformer';
+import { hasTokenReferences, replaceTokenReferences, type TokenReference } from './token-references';
+
+export const CSS_VARIABLE_PREFIX = 'bb';
+
+// Singular names used as the first segment of each variable
+const categoryNames: Record<string, string> = {
+  colors: 'color',
+  typography: 'typography',
+  spacing: 'spacing',
+  borders: 'border',
+  shadows: 'shadow',
+  breakpoints: 'breakpoint',
+  zIndex: 'z-index',
+  motion: 'motion',
+  theme: 'theme',
+  density: 'density',
+};
+
+// Type exports for TypeScript usage
+export type ThemeTokenPath = `theme.${TokenPath<ThemeContract>}`;
+export type DensityTokenPath = `density.${TokenPath<DensityTokens>}`;
+export type CssVariablePath = TokenPath<typeof tokens> | ThemeTokenPath | DensityTokenPath;
+export type CssVariableMap = Record<string, string>;
+export type CssReferenceMode = 'resolved' | 'css-var';
+
+export interface CssVariablesOptions {
+  rootSelector?: string;          // Selector for base tokens and the light theme
+  darkSelector?: string;          // Selector for dark theme overrides
+  highContrastSelector?: string;  // Selector for high contrast theme overrides
+  references?: CssReferenceMode;  // How aliased tokens are written, defaults to 'resolved'
+  reducedMotion?: boolean;        // Emit the prefers-reduced-motion overrides, defaults to true
+  density?: boolean;              // Emit the [data-density] modes, defaults to true
+  forcedColors?: boolean;         // Emit the forced-colors system color mapping, defaults to true
+}
+
+// Convert a token path to its custom property name
+export function toCssVariableName(path: string): string {
+  const [category, ...rest] = path.split('.');
+  const segments = [categoryNames[category] ?? toKebabCase(category), ...rest.map(toKebabCase)];
+  return `--${CSS_VARIABLE_PREFIX}-${segments.join('-')}`;
+}
+
+// Quote font family names that contain spaces (Segoe UI -> "Segoe UI")
+function formatFontStack(stack: readonly string[]): string {
+  return stack
+    .map(font => (/\s/.test(font) && !/^(var\(|["'])/.test(font) ? `"${font}"` : font))
+    .join(', ');
+}
+
+// Convert a token leaf to a CSS value
+export function toCssValue(value: TokenLeaf): string {
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string') return value;
+  if (value.every(item => typeof item === 'string')) {
+    return formatFontStack(value as readonly string[]);
+  }
+  // [fontSize, { lineHeight }] tuples resolve to the size
+  return toCssValue(value[0] as TokenLeaf);
+}
+
+// Build declarations for a token object rooted at the given path segment
+function buildDeclarations(tree: object, root: string): CssVariableMap {
+  const declarations: CssVariableMap = {};
+
+  for (const { path, value } of flattenTokens(tree, [root])) {
+    const name = toCssVariableName(path.join('.'));
+    declarations[name] = toCssValue(value);
+
+    // Companion values of [fontSize, { lineHeight }] tuples get their own variable
+    if (Array.isArray(value) && value[1] && typeof value[1] === 'object') {
+      for (const [key, companion] of Object.entries(value[1] as Record<string, string>)) {
+        declarations[`${name}-${toKebabCase(key)}`] = companion;
+      }
+    }
+  }
+
+  return declarations;
+}
+
+// Reference another token's custom property, mixing in transparency for alpha references
+function toCssReference({ path, alpha }: TokenReference): string {
+  const reference = `var(${toCssVariableName(path)})`;
+  return alpha === undefined ? reference : `color-mix(in srgb, ${reference} ${alpha * 100}%, transparent)`;
+}
+
+// Rewrite token references as var() references
+function linkReferences(variables: CssVariableMap): CssVariableMap {
+  for (const [name, value] of Object.entries(variables)) {
+    if (hasTokenReferences(value)) variables[name] = replaceTokenReferences(value, toCssReference);
+  }
+  return variables;
+}
+
+// Build custom properties for every base token category
+export function buildTokenVariables(references: CssReferenceMode = 'resolved'): CssVariableMap {
+  const source = references === 'css-var' ? tokenReferences : tokens;
+  const variables = Object.entries(source).reduce<CssVariableMap>(
+    (declarations, [category, tree]) => ({ ...declarations, ...buildDeclarations(tree, category) }),
+    {}
+  );
+
+  return references === 'css-var' ? linkReferences(variables) : variables;
+}
+
+// Build the motion variables that differ under prefers-reduced-motion
+// (with 'css-var' references only the durations change, transitions follow them)
+export function buildReducedMotionVariables(references: CssReferenceMode = 'resolved'): CssVariableMap {
+  const [source, reduced] = references === 'css-var'
+    ? [motionReferences, reducedMotionReferences]
+    : [motion, reducedMotion];
+  const base = buildDeclarations(source, 'motion');
+  const overrides = Object.fromEntries(
+    Object.entries(buildDeclarations(reduced, 'motion')).filter(([name, value]) => base[name] !== value)
+  );
+
+  return references === 'css-var' ? linkReferences(overrides) : overrides;
+}
+
+// Build custom properties for a semantic theme
+export function buildThemeVariables(theme: object = lightTheme): CssVariableMap {
+  return buildDeclarations(theme, 'theme');
+}
+
+// Build custom properties for a density mode
+export function buildDensityVariables(mode: DensityMode = DEFAULT_DENSITY): CssVariableMap {
+  return buildDeclarations(densityModes[mode], 'density');
+}
+
+// Render a map of custom properties as a CSS rule
+export function renderCssRule(selector: string, declarations: CssVariableMap): string {
+  const body = Object.entries(declarations)
+    .map(([name, value]) => `  ${name}: ${value};`)
+    .join('\n');
+  return `${selector} {\n${body}\n}\n`;
+}
+
+// Wrap rendered rules in a media query
+export function renderMediaRule(query: string, rules: string): string {
+  const body = rules.trimEnd().split('\n').map(line => (line ? `  ${line}` : line)).join('\n');
+  return `@media ${query} {\n${body}\n}\n`;
+}
+
+// Forced colors rules - system color theme variables on every theme scope, outline focus rings
+export function buildForcedColorsRules(rootSelector: string = ':root'): string {
+  return [
+    renderCssRule(`${rootSelector},\n[data-theme]`, buildThemeVariables(forcedColorsTheme)),
+    renderCssRule(':focus-visible', {
+      outline: `${cssVar('theme.focus.width')} solid ${cssVar('theme.focus.color')}`,
+      'outline-offset': cssVar('theme.focus.offset'),
+    }),
+  ].join('\n');
+}
+
+// Generate the complete stylesheet with base tokens, light theme and dark/high contrast overrides
+export function generateCssVariables(options: CssVariablesOptions = {}): string {
+  const {
+    rootSelector = ':root',
+    darkSelector = '[data-theme="dark"]',
+    highContrastSelector = '[data-theme="high-contrast"]',
+    references = 'resolved',
+    reducedMotion: includeReducedMotion = true,
+    density: includeDensity = true,
+    forcedColors: includeForcedColors = true,
+  } = options;
+
+  // The default mode also lives on the root so pages without data-density get it. It comes
+  // first: the selectors tie on specificity, so <html data-density="compact"> needs the later rule
+  const densityRules = [DEFAULT_DENSITY, ...DENSITY_MODES.filter(mode => mode !== DEFAULT_DENSITY)].map(mode => renderCssRule(
+    mode === DEFAULT_DENSITY ? `${rootSelector},\n[data-density="${mode}"]` : `[data-density="${mode}"]`,
+    buildDensityVariables(mode)
+  ));
+
+  return [
+    renderCssRule(rootSelector, { ...buildTokenVariables(references), ...buildThemeVariables(lightTheme) }),
+    renderCssRule(darkSelector, buildThemeVariables(darkTheme)),
+    renderCssRule(highContrastSelector, buildThemeVariables(highContrastTheme)),
+    ...(includeDensity ? densityRules : []),
+    ...(includeReducedMotion
+      ? [renderMediaRule(REDUCED_MOTION_QUERY, renderCssRule(rootSelector, buildReducedMotionVariables(references)))]
+      : []),
+    ...(includeForcedColors ? [renderMediaRule(FORCED_COLORS_QUERY, buildForcedColorsRules(rootSelector))] : []),
+  ].join('\n');
+}
+
+// Typed map from token path to custom property name
+export const cssVariableNames = [
+  ...flattenTokens(tokens),
+  ...flattenTokens(lightTheme, ['theme']),
+  ...flattenTokens(densityModes[DEFAULT_DENSITY], ['density']),
+].reduce<CssVariableMap>((names, { path }) => {
+  const key = path.join('.');
+  names[key] = toCssVariableName(key);
+  return names;
+}, {}) as Readonly<Record<CssVariablePath, string>>;
+
+// Reference a token as a CSS variable, e.g. cssVar('colors.primary.950')
+export function cssVar(path: CssVariablePath, fallback?: string): string {
+  const name = cssVariableNames[path];
+  return fallback ? `var(${name}, ${fallback})` : `var(${name})`;
+}
@@ -0,0 +1,86 @@
+import { tokens } from '../tokens';
+import { flattenTokens } from './token-transformer';
+import {
+  generateAndroidColors,
+  generateAndroidDimens,
+  generateFlatJson,
+  generateLess,
+  generateScss,
+  generateSwift,
+} from './exporters';
+
+// One token of every kind the exporters distinguish
+const fixture = {
+  colors: {
+    base: { white: '#ffffff' },
+    primary: { 950: '#222222' },
+    overlay: 'rgb(0 0 0 / 0.5)',
+  },
+  spacing: {
+    component: { md: '1rem', '2xl': '3rem' },
+  },
+  typography: {
+    fontFamily: { sans: ['Inter', 'Segoe UI', 'sans-serif'] },
+    fontSize: { sm: ['0.875rem', { lineHeight: '1.25rem' }] },
+    fontWeight: { semibold: '600' },
+    letterSpacing: { tight: '-0.025em' },
+    fluid: { hero: ['clamp(3rem, 1.875vw + 2.25rem, 3.75rem)', { lineHeight: '1' }] },
+  },
+  shadows: {
+    elevation: { sm: '0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px 0 rgb(0 0 0 / 0.06)' },
+  },
+  zIndex: {
+    overlay: { modal: 150 },
+    base: { default: 0 },
+  },
+  motion: {
+    duration: { fast: '100ms' },
+    easing: { standard: 'cubic-bezier(0.4, 0, 0.2, 1)' },
+  },
+} as const;
+
+describe('Token exporters', () => {
+  it('renders SCSS variables and maps', () => {
+    expect(generateScss(fixture)).toMatchSnapshot();
+  });
+
+  it('renders Less variables', () => {
+    expect(generateLess(fixture)).toMatchSnapshot();
+  });
+
+  it('renders flat JSON', () => {
+    expect(generateFlatJson(fixture)).toMatchSnapshot();
+  });
+
+  it('renders a Swift enum', () => {
+    expect(generateSwift(fixture)).toMatchSnapshot();
+  });
+
+  it('renders Android colors and dimens', () => {
+    expect(generateAndroidColors(fixture)).toMatchSnapshot();
+    expect(generateAndroidDimens(fixture)).toMatchSnapshot();
+  });
+
+  it('exports every token of the full tree to the web formats', () => {
+    const leaves = flattenTokens(tokens);
+    const tuples = leaves.filter(({ value }) => Array.isArray(value) && typeof value[1] === 'object');
+    const json = JSON.parse(generateFlatJson());
+
+    // One key per token plus one per [fontSize, { lineHeight }] companion
+    expect(Object.keys(json)).toHaveLength(leaves.length + tuples.length);
+    expect(json['colors.primary.950']).toBe('#222222');
+    expect(generateScss()).toContain('$bb-z-index-overlay-modal: 150;');
+    expect(generateLess()).toContain('@bb-color-primary-950: #222222;');
+  });
+
+  it('keeps native names unique', () => {
+    const names = (source: string, pattern: RegExp) => [...source.matchAll(pattern)].map(([, name]) => name);
+    const android = names(generateAndroidColors() + generateAndroidDimens(), /name="([^"]+)"/g);
+
+    expect(new Set(android).size).toBe(android.length);
+    for (const block of generateSwift().split('public enum').slice(2)) {
+      const declared = names(block, /static let ([^\s:=]+)/g);
+      expect(new Set(declared).size).toBe(declared.length);
+    }
+  });
+});
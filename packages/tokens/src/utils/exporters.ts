@@ -0,0 +1,308 @@
+/**
+ * Boombox Design System - Token Exporters
+ *
+ * Renders the token tree for consumers outside Tailwind and CSS variables:
+ * the marketing site (SCSS), legacy Less stylesheets, tooling (flat JSON)
+ * and the native apps (Swift, Android resources).
+ *
+ * Naming - every format derives from the CSS variable name so a token is
+ * recognisable across platforms:
+ * - CSS:     --bb-color-primary-950
+ * - SCSS:    $bb-color-primary-950, map.get($bb-color, 'primary', '950')
+ * - Less:    @bb-color-primary-950
+ * - JSON:    "colors.primary.950" (token path)
+ * - Swift:   BoomboxTokens.Colors.primary950
+ * - Android: @color/bb_color_primary_950, @dimen/bb_spacing_component_md
+ *
+ * Native formats only carry values with a native equivalent - colors, lengths
+ * (rem -> pt/dp at 16px), font sizes (sp on Android), numbers, font weights,
+ * font families and durations. Box shadows, easings, transitions and clamp()
+ * sizes are left out.
+ */
+
+import { tokens } from '../tokens';
+import { CSS_FONT_KEYWORD_PATTERN, toDp, toMobileFontFamily } from '../platform/mobile';
+import { parseColor, type RGBA } from './color';
+import { toCssValue, toCssVariableName } from './css-variables';
+import { flattenTokens, toDTCG, toKebabCase, type DTCGGroup, type DTCGToken, type TokenLeaf } from './token-transformer';
+
+const GENERATED_HEADER = 'Boombox Design System tokens - generated by @boombox/tokens, do not edit';
+
+// A token leaf with everything the exporters need
+interface ExportToken {
+  path: string[];
+  name: string;                 // CSS variable name without the leading dashes
+  value: TokenLeaf;
+  css: string;                  // CSS representation
+  type?: string;                // Inferred DTCG $type
+  lineHeight?: string;          // Companion line height of [fontSize, { lineHeight }] tuples
+}
+
+// Flatten a tree into export tokens, typed by the DTCG inference
+function collectTokens(tree: object): ExportToken[] {
+  const document = toDTCG(tree);
+
+  return flattenTokens(tree).map(({ path, value }) => {
+    const token = path.reduce<DTCGGroup | DTCGToken>((node, key) => (node as DTCGGroup)[key] as DTCGGroup, document);
+    const companion = Array.isArray(value) && value[1] && typeof value[1] === 'object'
+      ? (value[1] as { lineHeight?: string }).lineHeight
+      : undefined;
+
+    return {
+      path,
+      name: toCssVariableName(path.join('.')).slice(2),
+      value,
+      css: toCssValue(value),
+      type: (token as DTCGToken).$type,
+      ...(companion && { lineHeight: companion }),
+    };
+  });
+}
+
+// Check for commas outside parentheses (lists, not function arguments)
+function hasTopLevelComma(value: string): boolean {
+  let depth = 0;
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) return true;
+  }
+  return false;
+}
+
+// SCSS
+
+// SCSS map value - comma lists need parentheses inside a map
+function toScssMapValue(value: string): string {
+  return hasTopLevelComma(value) ? `(${value})` : value;
+}
+
+// Render a nested SCSS map for one group of tokens
+function renderScssMap(group: ExportToken[], depth: number, indent: string): string[] {
+  const lines: string[] = [];
+  const keys = [...new Set(group.map(token => token.path[depth]))];
+
+  for (const key of keys) {
+    const children = group.filter(token => token.path[depth] === key);
+    const [first] = children;
+    const name = `'${toKebabCase(key)}'`;
+
+    if (children.length === 1 && first.path.length === depth + 1) {
+      const value = first.lineHeight
+        ? `('font-size': ${first.css}, 'line-height': ${first.lineHeight})`
+        : toScssMapValue(first.css);
+      lines.push(`${indent}${name}: ${value},`);
+    } else {
+      lines.push(`${indent}${name}: (`, ...renderScssMap(children, depth + 1, `${indent}  `), `${indent}),`);
+    }
+  }
+
+  return lines;
+}
+
+// SCSS variables plus one nested map per category
+export function generateScss(tree: object = tokens): string {
+  const all = collectTokens(tree);
+  const variables = all.flatMap(token => [
+    `$${token.name}: ${token.css};`,
+    ...(token.lineHeight ? [`$${token.name}-line-height: ${token.lineHeight};`] : []),
+  ]);
+
+  const maps = Object.keys(tree).flatMap(category => {
+    const group = all.filter(token => token.path[0] === category);
+    if (!group.length) return [];
+    const mapName = toCssVariableName(category).slice(2);
+    return ['', `$${mapName}: (`, ...renderScssMap(group, 1, '  '), ');'];
+  });
+
+  return [`// ${GENERATED_HEADER}`, '', ...variables, ...maps, ''].join('\n');
+}
+
+// Less
+
+// Escape values Less would otherwise evaluate (division inside rgb(), clamp(), calc())
+function toLessValue(value: string): string {
+  if (!/[(/]/.test(value)) return value;
+  return value.includes('"') ? `~'${value}'` : `~"${value}"`;
+}
+
+// Less variables
+export function generateLess(tree: object = tokens): string {
+  const variables = collectTokens(tree).flatMap(token => [
+    `@${token.name}: ${toLessValue(token.css)};`,
+    ...(token.lineHeight ? [`@${token.name}-line-height: ${toLessValue(token.lineHeight)};`] : []),
+  ]);
+
+  return [`// ${GENERATED_HEADER}`, '', ...variables, ''].join('\n');
+}
+
+// Flat JSON
+
+// Token path -> CSS value, numbers kept as numbers
+export function generateFlatJson(tree: object = tokens): string {
+  const flat: Record<string, string | number> = {};
+
+  for (const token of collectTokens(tree)) {
+    const key = token.path.join('.');
+    flat[key] = typeof token.value === 'number' ? token.value : token.css;
+    if (token.lineHeight) flat[`${key}.lineHeight`] = token.lineHeight;
+  }
+
+  return `${JSON.stringify(flat, null, 2)}\n`;
+}
+
+// Swift
+
+const SWIFT_KEYWORDS = new Set([
+  'default', 'case', 'switch', 'in', 'is', 'as', 'for', 'if', 'else', 'return', 'import', 'static', 'let', 'var',
+  'func', 'enum', 'struct', 'class', 'protocol', 'extension', 'where', 'while', 'repeat', 'true', 'false', 'nil',
+  'self', 'super', 'init', 'public', 'private', 'internal', 'operator', 'throws', 'try', 'catch', 'guard', 'do',
+]);
+
+// SwiftUI Font.Weight for each numeric CSS weight
+const SWIFT_FONT_WEIGHTS: Record<number, string> = {
+  100: 'ultraLight',
+  200: 'thin',
+  300: 'light',
+  400: 'regular',
+  500: 'medium',
+  600: 'semibold',
+  700: 'bold',
+  800: 'heavy',
+  900: 'black',
+};
+
+// Path segments to a Swift identifier (['semantic', 'error', '500'] -> semanticError500)
+function toSwiftIdentifier(segments: string[]): string {
+  const identifier = segments
+    .flatMap(segment => segment.split(/[-_\s]+/))
+    .map((word, index) => (index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join('');
+
+  if (/^\d/.test(identifier)) return `_${identifier}`;
+  return SWIFT_KEYWORDS.has(identifier) ? `\`${identifier}\`` : identifier;
+}
+
+// rem and px lengths convert to points; em, % and clamp() depend on layout
+const NATIVE_LENGTH_PATTERN = /^-?\d*\.?\d+(rem|px)$/;
+
+// Round to a stable number of decimals for generated sources
+function formatNumber(value: number, decimals = 4): string {
+  return String(Number(value.toFixed(decimals)));
+}
+
+function toSwiftColor([r, g, b, a]: RGBA): string {
+  const channel = (value: number) => formatNumber(value / 255);
+  return `Color(red: ${channel(r)}, green: ${channel(g)}, blue: ${channel(b)}, opacity: ${formatNumber(a)})`;
+}
+
+// Swift declaration for a token, or null when it has no native equivalent
+function toSwiftDeclaration(token: ExportToken): string | null {
+  const name = toSwiftIdentifier(token.path.slice(1));
+
+  switch (token.type) {
+    case 'color': {
+      const rgba = parseColor(token.css);
+      return rgba ? `public static let ${name} = ${toSwiftColor(rgba)}` : null;
+    }
+    case 'dimension':
+    case 'typography':
+      return NATIVE_LENGTH_PATTERN.test(token.css)
+        ? `public static let ${name}: CGFloat = ${formatNumber(toDp(token.css))}`
+        : null;
+    case 'number':
+      return `public static let ${name}: Double = ${formatNumber(Number(token.value))}`;
+    case 'fontWeight': {
+      const weight = SWIFT_FONT_WEIGHTS[Number(token.css)];
+      return weight ? `public static let ${name}: Font.Weight = .${weight}` : null;
+    }
+    case 'fontFamily': {
+      // Stacks of generic CSS families only have nothing to load natively
+      const stack = token.value as readonly string[];
+      const loadable = stack.some(font => !CSS_FONT_KEYWORD_PATTERN.test(font));
+      return loadable ? `public static let ${name} = "${toMobileFontFamily(stack)}"` : null;
+    }
+    case 'duration': {
+      const seconds = token.css.endsWith('ms') ? parseFloat(token.css) / 1000 : parseFloat(token.css);
+      return `public static let ${name}: TimeInterval = ${formatNumber(seconds)}`;
+    }
+    default:
+      return null;
+  }
+}
+
+// Swift enum with one nested enum per category
+export function generateSwift(tree: object = tokens, enumName: string = 'BoomboxTokens'): string {
+  const all = collectTokens(tree);
+  const blocks = Object.keys(tree).flatMap(category => {
+    const declarations = all
+      .filter(token => token.path[0] === category)
+      .map(toSwiftDeclaration)
+      .filter((declaration): declaration is string => declaration !== null);
+    if (!declarations.length) return [];
+
+    const typeName = category.charAt(0).toUpperCase() + category.slice(1);
+    return [[
+      `    public enum ${typeName} {`,
+      ...declarations.map(declaration => `        ${declaration}`),
+      '    }',
+    ].join('\n')];
+  });
+
+  return [
+    `// ${GENERATED_HEADER}`,
+    'import SwiftUI',
+    '',
+    `public enum ${enumName} {`,
+    blocks.join('\n\n'),
+    '}',
+    '',
+  ].join('\n');
+}
+
+// Android
+
+// Android resource name (lowercase letters, digits and underscores)
+function toAndroidName(token: ExportToken): string {
+  return token.name.replace(/[^a-z0-9]+/gi, '_').toLowerCase();
+}
+
+// #AARRGGBB
+function toAndroidColor([r, g, b, a]: RGBA): string {
+  const hex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+  return `#${hex(a * 255)}${hex(r)}${hex(g)}${hex(b)}`.toUpperCase();
+}
+
+function renderAndroidResources(items: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<!-- ${GENERATED_HEADER} -->`,
+    '<resources>',
+    ...items.map(item => `    ${item}`),
+    '</resources>',
+    '',
+  ].join('\n');
+}
+
+// Android colors.xml with every color token
+export function generateAndroidColors(tree: object = tokens): string {
+  const items = collectTokens(tree).flatMap(token => {
+    const rgba = token.type === 'color' ? parseColor(token.css) : null;
+    return rgba ? [`<color name="${toAndroidName(token)}">${toAndroidColor(rgba)}</color>`] : [];
+  });
+
+  return renderAndroidResources(items);
+}
+
+// Android dimens.xml - lengths in dp, font sizes in sp
+export function generateAndroidDimens(tree: object = tokens): string {
+  const items = collectTokens(tree).flatMap(token => {
+    if ((token.type !== 'dimension' && token.type !== 'typography') || !NATIVE_LENGTH_PATTERN.test(token.css)) {
+      return [];
+    }
+    const unit = token.type === 'typography' ? 'sp' : 'dp';
+    return [`<dimen name="${toAndroidName(token)}">${formatNumber(toDp(token.css), 2)}${unit}</dimen>`];
+  });
+
+  return renderAndroidResources(items);
+}
@@ -0,0 +1,12 @@
+// Token utilities for the Boombox Design System
+export * from './token-transformer';
+export * from './css-variables';
+export * from './color';
+export * from './validators';
+export * from './token-references';
+export * from './color-scales';
+export * from './token-diff';
+export * from './layers';
+export * from './token-match';
+export * from './exporters';
+export * from './responsive';
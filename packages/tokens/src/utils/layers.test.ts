@@ -0,0 +1,57 @@
+import { layerOrder, layers, zIndex, zIndexUtils } from '../base/z-index';
+import { flattenTokens } from './token-transformer';
+import { assertNoLayerTies, computeLayers, findLayerTies } from './layers';
+
+describe('Layer order', () => {
+  it('computes values from relative declarations', () => {
+    expect(
+      computeLayers({
+        modal: {},
+        popover: { above: ['modal'] },
+        tooltip: { above: ['popover'] },
+        toast: { above: ['modal'] },
+      })
+    ).toEqual({ modal: 10, popover: 20, tooltip: 30, toast: 20 });
+    expect(computeLayers({ a: {}, b: { above: ['a'] } }, { start: 100, step: 5 })).toEqual({ a: 100, b: 105 });
+  });
+
+  it('reports layers without a declared order between them as ties', () => {
+    const computed = computeLayers({ modal: {}, popover: { above: ['modal'] }, toast: { above: ['modal'] } });
+
+    expect(findLayerTies(computed)).toEqual([{ value: 20, layers: ['popover', 'toast'] }]);
+    expect(() => assertNoLayerTies(computed)).toThrow('Ambiguous layer order: popover, toast (20)');
+  });
+
+  it('rejects cycles and unknown layers', () => {
+    expect(() => computeLayers({ a: { above: ['b'] }, b: { above: ['a'] } })).toThrow('Layer order cycle: a -> b -> a');
+    expect(() => computeLayers({ a: { above: ['missing'] } })).toThrow('Layer "missing" not found');
+  });
+});
+
+describe('Z-index layers', () => {
+  it('gives every declared layer its own value', () => {
+    expect(() => assertNoLayerTies(layers)).not.toThrow();
+    expect(Object.keys(layers)).toEqual(Object.keys(layerOrder));
+  });
+
+  it('has no ties across the navigation, overlay, popup and sticky groups', () => {
+    const { navigation, overlay, popup, sticky } = zIndex;
+    const values = Object.fromEntries(
+      flattenTokens({ navigation, overlay, popup, sticky }).map(({ path, value }) => [path.join('.'), value as number])
+    );
+    expect(findLayerTies(values)).toEqual([]);
+  });
+
+  it('stacks tooltips above popovers above modals', () => {
+    expect(zIndex.popup.tooltip).toBeGreaterThan(zIndex.popup.popover);
+    expect(zIndex.popup.popover).toBeGreaterThan(zIndex.overlay.modal);
+    expect(zIndex.overlay.modal).toBeGreaterThan(zIndex.overlay.backdrop);
+    expect(zIndex.sticky.content).toBeGreaterThan(zIndex.content.foreground);
+  });
+
+  it('lists the layering order lowest first', () => {
+    const order = zIndexUtils.getLayeringOrder();
+    expect(order[0]).toBe('sticky.content (30)');
+    expect(order[order.length - 1]).toBe('popup.notification (200)');
+  });
+});
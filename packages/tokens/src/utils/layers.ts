@@ -0,0 +1,84 @@
+/**
+ * Boombox Design System - Layer Order
+ *
+ * Z-index values computed from relative declarations ("tooltip above popover
+ * above modal") instead of hand-picked numbers, so adding a layer never means
+ * renumbering its neighbours and two layers cannot silently share a value.
+ *
+ * Rules:
+ * - a layer with no `above` entries sits on the lowest rank
+ * - every other layer sits one rank above the highest layer it is declared above
+ * - values are `start + rank * step`, leaving gaps for one-off adjustments
+ * - layers on the same rank have no declared order between them - reported as ties
+ */
+
+// Layers a layer must stack above
+export interface LayerDeclaration {
+  above?: readonly string[];
+}
+
+export type LayerDeclarations = Record<string, LayerDeclaration>;
+
+export interface LayerScaleOptions {
+  start?: number;     // Value of the lowest rank, defaults to 10
+  step?: number;      // Gap between ranks, defaults to 10
+}
+
+// Layers sharing one value without a declared order between them
+export interface LayerTie {
+  value: number;
+  layers: string[];
+}
+
+// Compute a z-index for every declared layer
+export function computeLayers<D extends LayerDeclarations>(
+  declarations: D,
+  options: LayerScaleOptions = {}
+): Record<keyof D & string, number> {
+  const { start = 10, step = 10 } = options;
+  const ranks: Record<string, number> = {};
+
+  const rank = (layer: string, trail: string[]): number => {
+    if (trail.includes(layer)) {
+      throw new Error(`Layer order cycle: ${[...trail.slice(trail.indexOf(layer)), layer].join(' -> ')}`);
+    }
+    if (layer in ranks) return ranks[layer];
+
+    const declaration = declarations[layer];
+    if (!declaration) {
+      throw new Error(`Layer "${layer}" not found`);
+    }
+
+    const below = (declaration.above ?? []).map(other => rank(other, [...trail, layer]));
+    ranks[layer] = below.length ? Math.max(...below) + 1 : 0;
+    return ranks[layer];
+  };
+
+  return Object.fromEntries(
+    Object.keys(declarations).map(layer => [layer, start + rank(layer, []) * step])
+  ) as Record<keyof D & string, number>;
+}
+
+// Find layers that share a value
+export function findLayerTies(layers: Record<string, number>): LayerTie[] {
+  const byValue = new Map<number, string[]>();
+
+  for (const [layer, value] of Object.entries(layers)) {
+    byValue.set(value, [...(byValue.get(value) ?? []), layer]);
+  }
+
+  return [...byValue]
+    .filter(([, names]) => names.length > 1)
+    .map(([value, names]) => ({ value, layers: names }))
+    .sort((a, b) => a.value - b.value);
+}
+
+// Throw when any layers share a value
+export function assertNoLayerTies(layers: Record<string, number>): void {
+  const ties = findLayerTies(layers);
+
+  if (ties.length) {
+    const details = ties.map(({ value, layers: names }) => `${names.join(', ')} (${value})`).join('; ');
+    throw new Error(`Ambiguous layer order: ${details}`);
+  }
+}
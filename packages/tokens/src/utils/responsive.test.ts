@@ -0,0 +1,71 @@
+import { breakpoints, breakpointUtils } from '../base/breakpoints';
+import {
+  getResponsiveValue,
+  isResponsiveObject,
+  mapResponsive,
+  RESPONSIVE_BREAKPOINTS,
+  resolveResponsiveClasses,
+  resolveResponsiveStyles,
+  validateResponsive,
+} from './responsive';
+
+describe('Responsive values', () => {
+  it('orders breakpoints from base to the largest screen', () => {
+    expect(RESPONSIVE_BREAKPOINTS).toEqual(['base', 'sm', 'md', 'lg', 'xl', '2xl']);
+  });
+
+  it('tells per-breakpoint objects from single values', () => {
+    expect(isResponsiveObject({ base: 1, lg: 2 })).toBe(true);
+    expect(isResponsiveObject('md')).toBe(false);
+    expect(isResponsiveObject({ tablet: 'lg' })).toBe(true);
+    expect(isResponsiveObject(['md', 'lg'])).toBe(false);
+  });
+
+  it('accepts every breakpoint pattern in the tokens', () => {
+    const patterns = [breakpoints.grid.patterns, breakpoints.layout, breakpoints.spacing, breakpoints.utilities];
+    for (const group of patterns) {
+      for (const pattern of Object.values(group).flatMap(entry => Object.values(entry))) {
+        expect(validateResponsive(pattern)).toEqual([]);
+      }
+    }
+  });
+
+  it('builds breakpoint-prefixed classes', () => {
+    expect(resolveResponsiveClasses(breakpoints.grid.patterns.standard, columns => `grid-cols-${columns}`))
+      .toBe('grid-cols-1 lg:grid-cols-2 2xl:grid-cols-3');
+    expect(resolveResponsiveClasses({ md: 'lg', base: 'sm' }, size => `h-control-${size} px-control-${size}`))
+      .toBe('h-control-sm px-control-sm md:h-control-lg md:px-control-lg');
+    expect(resolveResponsiveClasses('md', size => `gap-grid-${size}`)).toBe('gap-grid-md');
+  });
+
+  it('builds media query styles', () => {
+    expect(resolveResponsiveStyles(breakpoints.spacing.gap.standard, gap => ({ gap }))).toEqual({
+      gap: '1rem',
+      '@media (min-width: 1024px)': { gap: '1.5rem' },
+    });
+  });
+
+  it('resolves the value in effect at a breakpoint', () => {
+    const columns = breakpoints.grid.patterns.coverage;
+    expect(getResponsiveValue(columns)).toBe(2);
+    expect(getResponsiveValue(columns, 'md')).toBe(3);
+    expect(getResponsiveValue(columns, '2xl')).toBe(4);
+    expect(getResponsiveValue({ lg: 'row' }, 'sm')).toBeUndefined();
+    expect(mapResponsive({ base: 1, sm: 2 }, count => count * 2)).toEqual({ base: 2, sm: 4 });
+  });
+
+  it('builds container queries from container breakpoints', () => {
+    expect(breakpointUtils.buildContainerQuery('md')).toBe('@container (min-width: 28rem)');
+    expect(breakpointUtils.buildContainerQuery('sm', 'card', 'max')).toBe('@container card (max-width: 24rem)');
+    expect(() => breakpointUtils.buildContainerQuery('tablet' as never)).toThrow('Container breakpoint "tablet" not found');
+  });
+
+  it('rejects breakpoints missing from breakpoints.screens', () => {
+    const value = { base: 1, tablet: 2 };
+    expect(validateResponsive(value)).toEqual(['tablet']);
+    expect(() => resolveResponsiveClasses(value, columns => `grid-cols-${columns}`))
+      .toThrow('Breakpoint "tablet" not found in breakpoints.screens');
+    expect(() => resolveResponsiveClasses({ tablet: 'lg' } as never, size => `h-${size}`))
+      .toThrow('Breakpoint "tablet" not found in breakpoints.screens');
+  });
+});
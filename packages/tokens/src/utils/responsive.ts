@@ -0,0 +1,114 @@
+/**
+ * Boombox Design System - Responsive Values
+ *
+ * Per-breakpoint values for component props (size, gap, columns), shaped like the
+ * breakpoint patterns in breakpoints.grid.patterns and breakpoints.layout:
+ *
+ *   <Grid columns={{ base: 1, lg: 2, '2xl': 3 }} gap={{ base: 'md', lg: 'lg' }} />
+ *
+ * Keys are `base` plus the breakpoints.screens names. Values are mobile-first: each
+ * breakpoint applies from its min-width up, `base` below the first screen. Unknown
+ * keys ('3xl', 'tablet') throw so typos don't silently drop a breakpoint.
+ *
+ * Output:
+ * - classes: breakpoint-prefixed utilities (grid-cols-1 lg:grid-cols-2) - runtime-built
+ *   classes need a safelist entry in the Tailwind preset
+ * - styles: CSS-in-JS objects with min-width media queries
+ */
+
+import { breakpoints, breakpointUtils } from '../base/breakpoints';
+
+export type ScreenName = keyof typeof breakpoints.screens;
+export type ResponsiveBreakpoint = 'base' | ScreenName;
+export type ResponsiveObject<T> = Partial<Record<ResponsiveBreakpoint, T>>;
+export type Responsive<T> = T | ResponsiveObject<T>;
+
+// CSS declarations for one breakpoint, e.g. { gridTemplateColumns: 'repeat(2, minmax(0, 1fr))' }
+export type ResponsiveDeclarations = Record<string, string | number>;
+
+// Base declarations plus one nested object per media query
+export type ResponsiveStyles = Record<string, string | number | ResponsiveDeclarations>;
+
+// Breakpoints from smallest to largest
+export const RESPONSIVE_BREAKPOINTS: readonly ResponsiveBreakpoint[] = [
+  'base',
+  ...(Object.keys(breakpoints.screens) as ScreenName[]).sort(
+    (a, b) => parseFloat(breakpoints.screens[a]) - parseFloat(breakpoints.screens[b])
+  ),
+];
+
+function isBreakpoint(key: string): key is ResponsiveBreakpoint {
+  return (RESPONSIVE_BREAKPOINTS as readonly string[]).includes(key);
+}
+
+// Check whether a value is a per-breakpoint object rather than a single value.
+// Every plain object counts, so { tablet: 'lg' } is caught as a typo instead of passing
+// through as a single value - arrays, dates and other instances stay single values.
+export function isResponsiveObject<T>(value: Responsive<T>): value is ResponsiveObject<T> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+// List keys of a responsive value that are not breakpoints
+export function validateResponsive(value: unknown): string[] {
+  if (!isResponsiveObject(value)) return [];
+  return Object.keys(value as object).filter(key => !isBreakpoint(key));
+}
+
+// Per-breakpoint entries in breakpoint order - single values sit at 'base'
+export function getResponsiveEntries<T>(value: Responsive<T>): [ResponsiveBreakpoint, T][] {
+  if (!isResponsiveObject(value)) return [['base', value as T]];
+
+  const [unknown] = validateResponsive(value);
+  if (unknown) {
+    throw new Error(`Breakpoint "${unknown}" not found in breakpoints.screens`);
+  }
+  return RESPONSIVE_BREAKPOINTS
+    .filter(breakpoint => value[breakpoint] !== undefined)
+    .map(breakpoint => [breakpoint, value[breakpoint] as T]);
+}
+
+// Value in effect at a breakpoint - the closest breakpoint at or below it
+export function getResponsiveValue<T>(value: Responsive<T>, breakpoint: ResponsiveBreakpoint = 'base'): T | undefined {
+  const index = RESPONSIVE_BREAKPOINTS.indexOf(breakpoint);
+  if (index === -1) {
+    throw new Error(`Breakpoint "${breakpoint}" not found in breakpoints.screens`);
+  }
+  const entries = getResponsiveEntries(value).filter(([key]) => RESPONSIVE_BREAKPOINTS.indexOf(key) <= index);
+  return entries.length ? entries[entries.length - 1][1] : undefined;
+}
+
+// Convert every breakpoint's value, keeping the responsive shape
+export function mapResponsive<T, R>(value: Responsive<T>, convert: (value: T, breakpoint: ResponsiveBreakpoint) => R): Responsive<R> {
+  if (!isResponsiveObject(value)) return convert(value as T, 'base');
+  return Object.fromEntries(
+    getResponsiveEntries(value).map(([breakpoint, entry]) => [breakpoint, convert(entry, breakpoint)])
+  ) as ResponsiveObject<R>;
+}
+
+// Breakpoint-prefixed classes, e.g. { base: 1, lg: 2 } -> 'grid-cols-1 lg:grid-cols-2'
+export function resolveResponsiveClasses<T>(value: Responsive<T>, toClasses: (value: T) => string): string {
+  return getResponsiveEntries(value)
+    .flatMap(([breakpoint, entry]) =>
+      toClasses(entry)
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(className => (breakpoint === 'base' ? className : `${breakpoint}:${className}`))
+    )
+    .join(' ');
+}
+
+// CSS-in-JS styles with min-width media queries, e.g.
+// { gap: '1rem', '@media (min-width: 1024px)': { gap: '1.5rem' } }
+export function resolveResponsiveStyles<T>(
+  value: Responsive<T>,
+  toDeclarations: (value: T) => ResponsiveDeclarations
+): ResponsiveStyles {
+  return getResponsiveEntries(value).reduce<ResponsiveStyles>((styles, [breakpoint, entry]) => {
+    const declarations = toDeclarations(entry);
+    return breakpoint === 'base'
+      ? { ...styles, ...declarations }
+      : { ...styles, [breakpointUtils.buildMediaQuery(breakpoint)]: declarations };
+  }, {});
+}
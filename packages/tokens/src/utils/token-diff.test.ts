@@ -0,0 +1,101 @@
+import { tokens } from '../tokens';
+import { toDTCG, type DTCGGroup } from './token-transformer';
+import { describeColorDelta, diffTokens, formatTokenChangelog } from './token-diff';
+
+const before: DTCGGroup = {
+  colors: {
+    $type: 'color',
+    brand: { $value: '#222222' },
+    accent: { $value: '#06b6d4' },
+  },
+  zIndex: {
+    overlay: {
+      modal: { $type: 'number', $value: 50 },
+      toast: { $type: 'number', $value: 60 },
+    },
+  },
+  spacing: {
+    gutter: { $type: 'dimension', $value: '1rem' },
+  },
+};
+
+const after: DTCGGroup = {
+  colors: {
+    $type: 'color',
+    brand: { $value: '#18181b' },
+    accent: { $value: '#06b6d4' },
+    muted: { $value: '#f1f5f9' },
+  },
+  zIndex: {
+    layers: {
+      modal: { $type: 'number', $value: 50 },
+    },
+  },
+  spacing: {
+    gutter: { $type: 'color', $value: '#ffffff' },
+  },
+};
+
+describe('Token diff', () => {
+  it('reports no changes for identical documents', () => {
+    const document = toDTCG(tokens);
+    expect(diffTokens(document, document)).toEqual({ changes: [], breaking: [], bump: 'none' });
+  });
+
+  it('classifies added, removed, renamed and changed tokens', () => {
+    const { changes } = diffTokens(before, after);
+
+    expect(changes.map(({ kind, path }) => [kind, path])).toEqual([
+      ['value-changed', 'colors.brand'],
+      ['added', 'colors.muted'],
+      ['value-changed', 'spacing.gutter'],
+      ['renamed', 'zIndex.layers.modal'],
+      ['removed', 'zIndex.overlay.toast'],
+    ]);
+    expect(changes.find(change => change.kind === 'renamed')?.previousPath).toBe('zIndex.overlay.modal');
+  });
+
+  it('flags removals, renames and type changes as breaking', () => {
+    const diff = diffTokens(before, after);
+
+    expect(diff.breaking.map(change => change.path)).toEqual([
+      'spacing.gutter',
+      'zIndex.layers.modal',
+      'zIndex.overlay.toast',
+    ]);
+    expect(diff.bump).toBe('major');
+    expect(diffTokens(before, { ...before, extra: { $type: 'number', $value: 1 } }).bump).toBe('minor');
+  });
+
+  it('does not guess renames between unrelated tokens', () => {
+    const { changes } = diffTokens(
+      { colors: { a: { x: { $type: 'color', $value: '#000000' } } } },
+      { colors: { b: { y: { $type: 'color', $value: '#000000' } } } }
+    );
+    expect(changes.map(change => change.kind)).toEqual(['removed', 'added']);
+  });
+
+  it('describes color changes perceptually', () => {
+    expect(describeColorDelta('#222222', '#222222')).toBe('ΔL +0.000, ΔE 0.000');
+    expect(describeColorDelta('#ffffff', '#000000')).toBe('ΔL -1.000, ΔE 1.000');
+    expect(describeColorDelta('#000000', 'rgb(0 0 0 / 0.5)')).toMatch(/alpha 1 -> 0.5$/);
+  });
+
+  it('renders a markdown changelog', () => {
+    const changelog = formatTokenChangelog(diffTokens(before, after), { title: 'Tokens 0.1.0 -> 0.2.0', swatches: false });
+
+    expect(changelog).toContain('## Tokens 0.1.0 -> 0.2.0');
+    expect(changelog).toContain('Recommended version bump: **major**');
+    expect(changelog).toContain('3 breaking, 1 added, 1 removed, 1 renamed, 2 changed');
+    expect(changelog).toContain('- Renamed `zIndex.overlay.modal` -> `zIndex.layers.modal`');
+    expect(changelog).toContain('- Removed `zIndex.overlay.toast` (was `60`)');
+    expect(changelog).toMatch(/- `colors\.brand`: `#222222` -> `#18181b` \(ΔL -0\.\d{3}, ΔE 0\.\d{3}\)/);
+    expect(changelog).toContain('- `spacing.gutter`: `1rem` -> `#ffffff` ($type dimension -> color)');
+    expect(changelog).not.toContain('<span');
+  });
+
+  it('renders swatches for colors', () => {
+    const changelog = formatTokenChangelog(diffTokens(before, after));
+    expect(changelog).toContain('background:#f1f5f9"></span> `#f1f5f9`');
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Boombox Design System - Token Diff
+ *
+ * Compares two DTCG documents (two `tokens.json` builds, or `toDTCG` of two
+ * token trees) and classifies what a version bump changes for consuming apps.
+ *
+ * Change kinds:
+ * - added:         path only exists in the newer document
+ * - removed:       path only exists in the older document - breaking
+ * - renamed:       a removed path whose exact value and type reappear under a new
+ *                  path with the same key or the same parent group - breaking
+ * - value-changed: same path, different value - breaking only when the $type changes
+ *
+ * `formatTokenChangelog` renders a markdown changelog with color swatches and
+ * perceptual deltas (OKLCH lightness and OKLab distance) for changed colors.
+ */
+
+import { colorDifference, parseColor, rgbToOklch } from './color';
+import type { DTCGGroup, DTCGToken } from './token-transformer';
+
+export type TokenChangeKind = 'added' | 'removed' | 'renamed' | 'value-changed';
+export type TokenVersionBump = 'major' | 'minor' | 'patch' | 'none';
+
+export interface TokenChange {
+  kind: TokenChangeKind;
+  path: string;                 // Path in the newer document (older path for removals)
+  previousPath?: string;        // Older path of a renamed token
+  type?: string;                // DTCG $type
+  previousType?: string;        // Older $type when a value change also changed the type
+  before?: unknown;
+  after?: unknown;
+  breaking: boolean;
+}
+
+export interface TokenDiff {
+  changes: TokenChange[];
+  breaking: TokenChange[];
+  bump: TokenVersionBump;       // Smallest semver bump that covers the changes
+}
+
+export interface TokenChangelogOptions {
+  title?: string;               // Heading, e.g. 'Tokens 0.0.1 -> 0.1.0'
+  swatches?: boolean;           // Render inline color swatches, defaults to true
+}
+
+interface FlatDTCGToken {
+  value: unknown;
+  type?: string;
+}
+
+// Flatten a DTCG document to path -> value/type, inheriting group-level $type
+function flattenDTCG(group: DTCGGroup, parentPath: string[] = [], inheritedType?: string): Map<string, FlatDTCGToken> {
+  const tokens = new Map<string, FlatDTCGToken>();
+  const groupType = group.$type ?? inheritedType;
+
+  for (const [key, node] of Object.entries(group)) {
+    if (key.startsWith('$') || !node || typeof node !== 'object') continue;
+    const path = [...parentPath, key];
+
+    if ('$value' in node) {
+      const token = node as DTCGToken;
+      tokens.set(path.join('.'), { value: token.$value, type: token.$type ?? groupType });
+    } else {
+      flattenDTCG(node as DTCGGroup, path, groupType).forEach((token, tokenPath) => tokens.set(tokenPath, token));
+    }
+  }
+
+  return tokens;
+}
+
+// Stable comparison key for a DTCG value
+function valueKey(token: FlatDTCGToken): string {
+  return `${token.type ?? ''}:${JSON.stringify(token.value)}`;
+}
+
+const parentOf = (path: string) => path.split('.').slice(0, -1).join('.');
+const keyOf = (path: string) => path.split('.').pop() as string;
+
+// Pick the added path a removed token most likely moved to, or nothing when ambiguous
+function findRename(path: string, candidates: string[]): string | undefined {
+  const sameKey = candidates.filter(candidate => keyOf(candidate) === keyOf(path));
+  if (sameKey.length === 1) return sameKey[0];
+
+  const sameParent = candidates.filter(candidate => parentOf(candidate) === parentOf(path));
+  if (sameParent.length === 1) return sameParent[0];
+
+  return undefined;
+}
+
+// Compare two DTCG documents
+export function diffTokens(before: DTCGGroup, after: DTCGGroup): TokenDiff {
+  const previous = flattenDTCG(before);
+  const next = flattenDTCG(after);
+  const changes: TokenChange[] = [];
+
+  const removed = [...previous.keys()].filter(path => !next.has(path));
+  const added = new Set([...next.keys()].filter(path => !previous.has(path)));
+
+  // Renames - removed paths whose exact value reappears nearby
+  for (const path of removed) {
+    const token = previous.get(path) as FlatDTCGToken;
+    const candidates = [...added].filter(candidate => valueKey(next.get(candidate) as FlatDTCGToken) === valueKey(token));
+    const target = findRename(path, candidates);
+
+    if (target) {
+      added.delete(target);
+      changes.push({ kind: 'renamed', path: target, previousPath: path, type: token.type, after: token.value, breaking: true });
+    } else {
+      changes.push({ kind: 'removed', path, type: token.type, before: token.value, breaking: true });
+    }
+  }
+
+  for (const path of added) {
+    const token = next.get(path) as FlatDTCGToken;
+    changes.push({ kind: 'added', path, type: token.type, after: token.value, breaking: false });
+  }
+
+  for (const [path, token] of next) {
+    const old = previous.get(path);
+    if (!old || valueKey(old) === valueKey(token)) continue;
+
+    const typeChanged = old.type !== token.type;
+    changes.push({
+      kind: 'value-changed',
+      path,
+      type: token.type,
+      ...(typeChanged && { previousType: old.type }),
+      before: old.value,
+      after: token.value,
+      breaking: typeChanged,
+    });
+  }
+
+  changes.sort((a, b) => a.path.localeCompare(b.path));
+  const breaking = changes.filter(change => change.breaking);
+  const bump: TokenVersionBump = breaking.length
+    ? 'major'
+    : changes.some(change => change.kind === 'added')
+      ? 'minor'
+      : changes.length
+        ? 'patch'
+        : 'none';
+
+  return { changes, breaking, bump };
+}
+
+// Render a DTCG value as inline code
+function formatValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `\`${text.replace(/`/g, "'")}\``;
+}
+
+// Inline color swatch - rendered by HTML-capable markdown viewers, ignored elsewhere
+function swatch(color: string): string {
+  return `<span style="display:inline-block;width:0.8em;height:0.8em;border:1px solid #0000001a;background:${color}"></span>`;
+}
+
+// Render a value, prefixed with a swatch when it is a color
+function formatTokenValue(value: unknown, type: string | undefined, swatches: boolean): string {
+  return swatches && type === 'color' && typeof value === 'string' && parseColor(value)
+    ? `${swatch(value)} ${formatValue(value)}`
+    : formatValue(value);
+}
+
+// Perceptual delta between two colors - OKLCH lightness change and OKLab distance
+export function describeColorDelta(before: string, after: string): string | null {
+  const from = parseColor(before);
+  const to = parseColor(after);
+  if (!from || !to) return null;
+
+  const deltaL = rgbToOklch(to)[0] - rgbToOklch(from)[0];
+  const deltaE = colorDifference(from, to);
+  const alpha = to[3] !== from[3] ? `, alpha ${from[3]} -> ${to[3]}` : '';
+
+  return `ΔL ${deltaL >= 0 ? '+' : ''}${deltaL.toFixed(3)}, ΔE ${deltaE.toFixed(3)}${alpha}`;
+}
+
+// Describe a single change as a list item
+function formatChange(change: TokenChange, swatches: boolean): string {
+  switch (change.kind) {
+    case 'added':
+      return `- \`${change.path}\`: ${formatTokenValue(change.after, change.type, swatches)}`;
+    case 'removed':
+      return `- Removed \`${change.path}\` (was ${formatTokenValue(change.before, change.type, swatches)})`;
+    case 'renamed':
+      return `- Renamed \`${change.previousPath}\` -> \`${change.path}\``;
+    default: {
+      const from = formatTokenValue(change.before, change.previousType ?? change.type, swatches);
+      const to = formatTokenValue(change.after, change.type, swatches);
+      const delta = change.type === 'color' && !change.previousType
+        ? describeColorDelta(String(change.before), String(change.after))
+        : null;
+      const typeChange = change.previousType ? ` ($type ${change.previousType} -> ${change.type})` : '';
+      return `- \`${change.path}\`: ${from} -> ${to}${delta ? ` (${delta})` : ''}${typeChange}`;
+    }
+  }
+}
+
+// Render a diff as a markdown changelog
+export function formatTokenChangelog(diff: TokenDiff, options: TokenChangelogOptions = {}): string {
+  const { title = 'Token changes', swatches = true } = options;
+  const count = (kind: TokenChangeKind) => diff.changes.filter(change => change.kind === kind).length;
+  const lines = [
+    `## ${title}`,
+    '',
+    `Recommended version bump: **${diff.bump}**`,
+    '',
+    `${diff.breaking.length} breaking, ${count('added')} added, ${count('removed')} removed, ` +
+      `${count('renamed')} renamed, ${count('value-changed')} changed`,
+  ];
+
+  const section = (heading: string, changes: TokenChange[]) => {
+    if (!changes.length) return;
+    lines.push('', `### ${heading}`, '', ...changes.map(change => formatChange(change, swatches)));
+  };
+
+  section('Breaking changes', diff.breaking);
+  section('Added', diff.changes.filter(change => change.kind === 'added'));
+  section('Changed', diff.changes.filter(change => change.kind === 'value-changed' && !change.breaking));
+
+  return `${lines.join('\n')}\n`;
+}
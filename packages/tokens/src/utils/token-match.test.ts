@@ -0,0 +1,34 @@
+import { colors } from '../base/colors';
+import { tailwindColorName } from '../platform/web';
+import { findNearestColorToken } from './token-match';
+
+describe('Token matching', () => {
+  it('matches raw colors to tokens regardless of notation', () => {
+    expect(findNearestColorToken('#222')).toMatchObject({ path: 'colors.primary.950', quality: 'exact' });
+    expect(findNearestColorToken('#222222')).toMatchObject({ path: 'colors.primary.950', quality: 'exact', alpha: 1 });
+    expect(findNearestColorToken('rgb(226, 232, 240)')).toMatchObject({ path: 'colors.secondary.200', quality: 'exact' });
+    expect(findNearestColorToken('#FFF')).toMatchObject({ path: 'colors.base.white', quality: 'exact' });
+  });
+
+  it('grades near and distant colors', () => {
+    expect(findNearestColorToken('#232323')).toMatchObject({ path: 'colors.primary.950', quality: 'near' });
+    expect(findNearestColorToken('#6366f1')?.quality).toBe('none');
+    expect(findNearestColorToken('#232323', { nearDistance: 0 })?.quality).toBe('none');
+  });
+
+  it('reports alpha separately from the matched token', () => {
+    expect(findNearestColorToken('rgba(0, 0, 0, 0.2)')).toMatchObject({ path: 'colors.base.black', quality: 'exact', alpha: 0.2 });
+  });
+
+  it('searches custom candidate trees', () => {
+    expect(findNearestColorToken('#dc2626', { tree: colors.semantic, root: 'semantic' })?.path).toBe('semantic.error.600');
+    expect(findNearestColorToken('not-a-color')).toBeNull();
+  });
+
+  it('names color tokens the way the Tailwind preset does', () => {
+    expect(tailwindColorName('colors.primary.950')).toBe('primary-950');
+    expect(tailwindColorName('colors.semantic.error.500')).toBe('error-500');
+    expect(tailwindColorName('colors.base.white')).toBe('white');
+    expect(() => tailwindColorName('spacing.component.md')).toThrow('Token "spacing.component.md" is not a color token');
+  });
+});
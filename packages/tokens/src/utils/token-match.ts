@@ -0,0 +1,64 @@
+/**
+ * Boombox Design System - Token Matching
+ *
+ * Maps raw color values found in application code (hex codes, rgb()/rgba()
+ * literals, Tailwind palette colors) to the closest color token, for audits
+ * and codemods that move hardcoded styles onto tokens.
+ *
+ * Match quality by OKLab distance (alpha is ignored and reported separately):
+ * - exact: within 0.002 - the same color after 8-bit rounding
+ * - near:  within `nearDistance` (0.03 by default) - barely distinguishable, migrate after review
+ * - none:  nothing in range - the nearest token is still returned as a hint
+ */
+
+import { colors } from '../base/colors';
+import { colorDifference, parseColor } from './color';
+import { flattenTokens } from './token-transformer';
+
+export type TokenMatchQuality = 'exact' | 'near' | 'none';
+
+export interface ColorTokenMatch {
+  path: string;                 // Token path, e.g. 'colors.secondary.200'
+  value: string;                // Token value
+  distance: number;             // OKLab distance to the matched value
+  quality: TokenMatchQuality;
+  alpha: number;                // Alpha of the matched value - tokens are opaque
+}
+
+export interface ColorMatchOptions {
+  tree?: object;                // Candidate tokens, defaults to the color tokens
+  root?: string;                // Path prefix of the tree, defaults to 'colors'
+  nearDistance?: number;        // Largest distance reported as 'near', defaults to 0.03
+}
+
+export const EXACT_COLOR_DISTANCE = 0.002;
+
+// Find the color token closest to a raw color value, or null when the value is not a color
+export function findNearestColorToken(value: string, options: ColorMatchOptions = {}): ColorTokenMatch | null {
+  const { tree = colors, root = 'colors', nearDistance = 0.03 } = options;
+  const rgba = parseColor(value);
+  if (!rgba) return null;
+
+  let nearest: Omit<ColorTokenMatch, 'quality' | 'alpha'> | null = null;
+
+  for (const { path, value: candidate } of flattenTokens(tree, [root])) {
+    const candidateRgba = typeof candidate === 'string' ? parseColor(candidate) : null;
+    // Translucent tokens stand for a blend, not a color
+    if (!candidateRgba || candidateRgba[3] < 1) continue;
+
+    const distance = colorDifference(rgba, candidateRgba);
+    if (!nearest || distance < nearest.distance) {
+      nearest = { path: path.join('.'), value: candidate as string, distance };
+    }
+  }
+
+  if (!nearest) return null;
+
+  const quality: TokenMatchQuality = nearest.distance <= EXACT_COLOR_DISTANCE
+    ? 'exact'
+    : nearest.distance <= nearDistance
+      ? 'near'
+      : 'none';
+
+  return { ...nearest, quality, alpha: rgba[3] };
+}
@@ -0,0 +1,62 @@
+import { borders, borderReferences } from '../base/borders';
+import { shadows } from '../base/shadows';
+import { tokens, tokenReferences } from '../tokens';
+import { generateCssVariables } from './css-variables';
+import {
+  buildTokenGraph,
+  findTokenCycles,
+  parseTokenReferences,
+  resolveTokenReferences,
+  tokenRef,
+} from './token-references';
+
+describe('Token references', () => {
+  it('keeps aliases in the declared tokens and resolves them in the exported ones', () => {
+    expect(borderReferences.colors.default).toBe('{colors.secondary.200}');
+    expect(borders.colors.default).toBe('#e2e8f0');
+    expect(borders.directional.left.warning).toBe('4px solid #fbbf24');
+  });
+
+  it('resolves alpha references to rgb() colors', () => {
+    expect(shadows.semantic.success.subtle).toBe('0 1px 3px 0 rgb(16 185 129 / 0.1)');
+    expect(parseTokenReferences('0 0 0 {colors.semantic.error.500 / 0.2}')).toEqual([
+      { path: 'colors.semantic.error.500', alpha: 0.2 },
+    ]);
+    expect(tokenRef('colors.primary.950', 0.1)).toBe('{colors.primary.950 / 0.1}');
+  });
+
+  it('resolves the reference tree back to the exported tokens', () => {
+    expect(resolveTokenReferences(tokenReferences)).toEqual(tokens);
+  });
+
+  it('builds the dependency graph without cycles', () => {
+    const graph = buildTokenGraph(tokenReferences);
+
+    expect(graph.dependencies['borders.colors.default']).toEqual(['colors.secondary.200']);
+    expect(graph.dependents['colors.secondary.200']).toEqual(
+      expect.arrayContaining(['borders.colors.default', 'borders.directional.left.default'])
+    );
+    expect(findTokenCycles(graph)).toEqual([]);
+  });
+
+  it('follows alias chains and reports cycles and missing targets', () => {
+    const tree = { a: '#000000', b: '{a}', c: '1px solid {b}' };
+    expect(resolveTokenReferences(tree)).toEqual({ a: '#000000', b: '#000000', c: '1px solid #000000' });
+
+    const cyclic = { a: '{c}', b: '{a}', c: '{b}' };
+    expect(findTokenCycles(buildTokenGraph(cyclic))).toEqual([['a', 'c', 'b', 'a']]);
+    expect(() => resolveTokenReferences(cyclic)).toThrow('Token reference cycle: a -> c -> b -> a');
+    expect(() => resolveTokenReferences({ a: '{missing.path}' })).toThrow('Token reference "missing.path" not found');
+  });
+
+  it('emits resolved values or var() references in CSS', () => {
+    expect(generateCssVariables()).toContain('--bb-border-colors-default: #e2e8f0;');
+
+    const css = generateCssVariables({ references: 'css-var' });
+    expect(css).toContain('--bb-border-colors-default: var(--bb-color-secondary-200);');
+    expect(css).toContain('--bb-border-directional-top-default: 1px solid var(--bb-color-secondary-100);');
+    expect(css).toContain(
+      '--bb-shadow-semantic-error-strong: 0 10px 15px -3px color-mix(in srgb, var(--bb-color-semantic-error-500) 20%, transparent);'
+    );
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Boombox Design System - Token References
+ *
+ * Lets derived tokens declare where their values come from instead of
+ * copying them at module load, e.g. `borders.colors.default` is
+ * `'{colors.secondary.200}'` rather than `'#e2e8f0'`.
+ *
+ * Reference syntax:
+ * - `{colors.secondary.200}` - whole-value alias (DTCG alias syntax)
+ * - `1px solid {colors.secondary.200}` - reference embedded in a compound value
+ * - `{colors.semantic.error.500 / 0.1}` - color reference with alpha (resolves to `rgb(r g b / a)`)
+ *
+ * Resolution follows alias chains, reports missing targets and throws on
+ * cycles. Exporters choose between resolved values and `var()` references
+ * so a base color change carries through generated CSS at runtime too.
+ */
+
+import { flattenTokens, type TokenPath, type TokenValue } from './token-transformer';
+import { parseColor, withAlpha } from './color';
+
+// Matches {path} and {path / alpha}
+const REFERENCE_PATTERN = /\{([\w.-]+)(?:\s*\/\s*(\d*\.?\d+))?\}/g;
+
+// A parsed reference inside a token value
+export interface TokenReference {
+  path: string;
+  alpha?: number;
+}
+
+// Token paths each token depends on, and the tokens depending on each path
+export interface TokenGraph {
+  dependencies: Record<string, string[]>;
+  dependents: Record<string, string[]>;
+}
+
+// Resolved shape of a token tree - whole-value aliases keep the exact target type
+export type ResolvedTokens<T, Root> = T extends `{${infer P}}`
+  ? P extends TokenPath<Root>
+    ? TokenValue<Root, P>
+    : string
+  : T extends `${string}{${string}}${string}`
+    ? string
+    : T extends string | number | readonly unknown[]
+      ? T
+      : { [K in keyof T]: ResolvedTokens<T[K], Root> };
+
+// Build a reference string, e.g. tokenRef('colors.secondary.200') -> '{colors.secondary.200}'
+export function tokenRef(path: string, alpha?: number): string {
+  return alpha === undefined ? `{${path}}` : `{${path} / ${alpha}}`;
+}
+
+// Check whether a token value contains references
+export function hasTokenReferences(value: unknown): value is string {
+  return typeof value === 'string' && new RegExp(REFERENCE_PATTERN.source).test(value);
+}
+
+// List the references inside a token value
+export function parseTokenReferences(value: string): TokenReference[] {
+  return [...value.matchAll(REFERENCE_PATTERN)].map(([, path, alpha]) =>
+    alpha === undefined ? { path } : { path, alpha: Number(alpha) }
+  );
+}
+
+// Replace every reference in a value using the given formatter
+export function replaceTokenReferences(value: string, format: (reference: TokenReference) => string): string {
+  return value.replace(REFERENCE_PATTERN, (_, path: string, alpha?: string) =>
+    format(alpha === undefined ? { path } : { path, alpha: Number(alpha) })
+  );
+}
+
+// Build the dependency graph of every reference in a token tree
+export function buildTokenGraph(tree: object): TokenGraph {
+  const graph: TokenGraph = { dependencies: {}, dependents: {} };
+
+  for (const { path, value } of flattenTokens(tree)) {
+    if (!hasTokenReferences(value)) continue;
+
+    const key = path.join('.');
+    const targets = [...new Set(parseTokenReferences(value).map(reference => reference.path))];
+    graph.dependencies[key] = targets;
+
+    for (const target of targets) {
+      (graph.dependents[target] ??= []).push(key);
+    }
+  }
+
+  return graph;
+}
+
+// Find every reference cycle, each listed as a closed path (a -> b -> a)
+export function findTokenCycles(graph: TokenGraph): string[][] {
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+
+  const visit = (node: string, trail: string[]) => {
+    const start = trail.indexOf(node);
+    if (start !== -1) {
+      cycles.push([...trail.slice(start), node]);
+      return;
+    }
+    if (done.has(node)) return;
+
+    for (const target of graph.dependencies[node] ?? []) {
+      visit(target, [...trail, node]);
+    }
+    done.add(node);
+  };
+
+  Object.keys(graph.dependencies).forEach(node => visit(node, []));
+  return cycles;
+}
+
+// Look up a raw value by dot path
+function lookup(root: object, path: string): unknown {
+  return path.split('.').reduce<any>((node, key) => (node && typeof node === 'object' ? node[key] : undefined), root);
+}
+
+// Apply an alpha modifier to a resolved color
+function applyAlpha(color: string, alpha: number, path: string): string {
+  if (!parseColor(color)) {
+    throw new Error(`Token reference "${path}" with alpha does not resolve to a color`);
+  }
+  return withAlpha(color, alpha);
+}
+
+// Resolve a single value against the root tree, following alias chains
+export function resolveTokenValue(value: string, root: object, trail: string[] = []): string {
+  return replaceTokenReferences(value, ({ path, alpha }) => {
+    if (trail.includes(path)) {
+      throw new Error(`Token reference cycle: ${[...trail.slice(trail.indexOf(path)), path].join(' -> ')}`);
+    }
+
+    const target = lookup(root, path);
+    if (typeof target !== 'string' && typeof target !== 'number') {
+      throw new Error(`Token reference "${path}" not found`);
+    }
+
+    const resolved = resolveTokenValue(String(target), root, [...trail, path]);
+    return alpha === undefined ? resolved : applyAlpha(resolved, alpha, path);
+  });
+}
+
+// Resolve every reference in a tree - targets are looked up in `root` (defaults to the tree itself)
+export function resolveTokenReferences<T extends object, Root extends object = T>(
+  tree: T,
+  root?: Root
+): ResolvedTokens<T, Root> {
+  const context: object = root ?? tree;
+  // Own paths only take part in cycle detection when the tree resolves against itself
+  const selfRooted = root === undefined;
+
+  const resolve = (node: unknown, path: string[]): unknown => {
+    if (hasTokenReferences(node)) return resolveTokenValue(node, context, selfRooted ? [path.join('.')] : []);
+    if (!node || typeof node !== 'object' || Array.isArray(node)) return node;
+
+    return Object.fromEntries(
+      Object.entries(node).map(([key, child]) => [key, resolve(child, [...path, key])])
+    );
+  };
+
+  return resolve(tree, []) as ResolvedTokens<T, Root>;
+}
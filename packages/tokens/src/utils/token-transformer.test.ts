@@ -0,0 +1,114 @@
+import { colors } from '../base/colors';
+import { tokens } from '../tokens';
+import {
+  collectDTCGDescriptions,
+  flattenTokens,
+  formatBoxShadow,
+  fromDTCG,
+  parseBoxShadow,
+  toDTCG,
+  toKebabCase,
+} from './token-transformer';
+
+describe('Token transformer', () => {
+  describe('flattenTokens', () => {
+    it('walks objects and treats arrays as leaves', () => {
+      expect(flattenTokens({ a: { b: 1, c: ['x', 'y'] } })).toEqual([
+        { path: ['a', 'b'], value: 1 },
+        { path: ['a', 'c'], value: ['x', 'y'] },
+      ]);
+    });
+
+    it('kebab-cases camelCase keys', () => {
+      expect(toKebabCase('mobileMenu')).toBe('mobile-menu');
+      expect(toKebabCase('2xl')).toBe('2xl');
+    });
+  });
+
+  describe('box shadows', () => {
+    it('parses multi-layer and inset shadows', () => {
+      expect(parseBoxShadow('inset 0 1px 2px 0 rgb(0 0 0 / 0.05), 0 0 20px #fff')).toEqual([
+        { color: 'rgb(0 0 0 / 0.05)', offsetX: '0', offsetY: '1px', blur: '2px', spread: '0', inset: true },
+        { color: '#fff', offsetX: '0', offsetY: '0', blur: '20px', spread: '0' },
+      ]);
+    });
+
+    it('rejects values that are not shadows', () => {
+      expect(parseBoxShadow('none')).toBeNull();
+      expect(parseBoxShadow('box-shadow 0.15s ease-in-out')).toBeNull();
+    });
+
+    it('formats layers back to CSS', () => {
+      const [layer] = parseBoxShadow('0px 6px 20px 0px rgba(0, 0, 0, 0.2)')!;
+      expect(formatBoxShadow(layer)).toBe('0px 6px 20px 0px rgba(0, 0, 0, 0.2)');
+    });
+  });
+
+  describe('toDTCG', () => {
+    const document = toDTCG(tokens, { descriptions: { 'colors.primary.950': 'Main brand color' } }) as any;
+
+    it('infers token types', () => {
+      expect(document.colors.primary[950]).toEqual({
+        $type: 'color',
+        $value: colors.primary[950],
+        $description: 'Main brand color',
+      });
+      expect(document.spacing.component.md).toEqual({ $type: 'dimension', $value: '1rem' });
+      expect(document.typography.fontWeight.semibold).toEqual({ $type: 'fontWeight', $value: 600 });
+      expect(document.typography.fontSize.sm).toEqual({
+        $type: 'typography',
+        $value: { fontSize: '0.875rem', lineHeight: '1.25rem' },
+      });
+      expect(document.zIndex.overlay.modal).toEqual({ $type: 'number', $value: 150 });
+      expect(document.shadows.elevation.sm.$type).toBe('shadow');
+      expect(document.shadows.elevation.sm.$value).toHaveLength(2);
+      expect(document.motion.duration.normal).toEqual({ $type: 'duration', $value: '150ms' });
+      expect(document.motion.easing.standard).toEqual({ $type: 'cubicBezier', $value: [0.4, 0, 0.2, 1] });
+    });
+
+    it('omits $type for values outside the DTCG types', () => {
+      expect(document.borders.style.dashed).toEqual({ $value: 'dashed' });
+    });
+  });
+
+  describe('fromDTCG', () => {
+    it('round-trips the token tree', () => {
+      const document = JSON.parse(JSON.stringify(toDTCG(tokens)));
+      const imported = fromDTCG(document, tokens);
+
+      // Shadows without a spread come back with an explicit 0 spread
+      const expected = JSON.parse(JSON.stringify(tokens));
+      for (const { path, value } of flattenTokens(tokens.shadows, ['shadows'])) {
+        const layers = typeof value === 'string' ? parseBoxShadow(value) : null;
+        if (!layers) continue;
+        const parent = path.slice(0, -1).reduce((node, key) => node[key], expected);
+        parent[path[path.length - 1]] = formatBoxShadow(layers);
+      }
+
+      expect(imported).toEqual(expected);
+      expect(imported.shadows.special.glow.primary).toBe('0 0 20px 0 rgb(34 34 34 / 0.3)');
+      expect(imported.shadows.elevation).toEqual(tokens.shadows.elevation);
+    });
+
+    it('inherits group types and accepts object value forms', () => {
+      const imported = fromDTCG({
+        size: { $type: 'dimension', card: { $value: { value: 2, unit: 'rem' } } },
+        brand: { $type: 'color', $value: { colorSpace: 'srgb', components: [0, 0, 0], hex: '#000000' } },
+        weight: { $type: 'fontWeight', $value: 700 },
+      });
+      expect(imported).toEqual({ size: { card: '2rem' }, brand: '#000000', weight: '700' });
+    });
+
+    it('throws when a reference token is missing', () => {
+      expect(() => fromDTCG({ primary: {} }, { primary: { 50: '#fafafa' } })).toThrow(
+        'DTCG token "primary.50" not found'
+      );
+    });
+
+    it('collects descriptions by path', () => {
+      expect(
+        collectDTCGDescriptions({ colors: { brand: { $value: '#222', $description: 'Brand' } } })
+      ).toEqual({ 'colors.brand': 'Brand' });
+    });
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * Boombox Design System - Token Transformer
+ *
+ * Shared helpers for walking the nested `as const` token objects.
+ * Every platform output (CSS variables, Tailwind, email, mobile) starts from
+ * the same flat list of path/value entries produced here, so naming and
+ * traversal rules stay identical across generators.
+ *
+ * Leaf rules:
+ * - strings and numbers are leaves (colors, sizes, z-index values)
+ * - arrays are leaves (font stacks, [fontSize, { lineHeight }] tuples)
+ * - plain objects are walked recursively
+ */
+
+// Any value that terminates a token path
+export type TokenLeaf = string | number | readonly unknown[];
+
+// A single flattened token entry
+export interface FlatToken {
+  path: string[];
+  value: TokenLeaf;
+}
+
+// Dot-separated paths to every leaf of a token object, e.g. 'primary.950'
+export type TokenPath<T> = T extends TokenLeaf
+  ? never
+  : {
+      [K in keyof T & (string | number)]: T[K] extends TokenLeaf
+        ? `${K}`
+        : `${K}.${TokenPath<T[K]>}`;
+    }[keyof T & (string | number)];
+
+// Dot-separated paths to every group and leaf, e.g. 'headings' or 'headings.h1.fontSize'
+export type TokenNodePath<T> = T extends TokenLeaf
+  ? never
+  : {
+      [K in keyof T & (string | number)]: T[K] extends TokenLeaf
+        ? `${K}`
+        : `${K}` | `${K}.${TokenNodePath<T[K]>}`;
+    }[keyof T & (string | number)];
+
+// Match a path segment to a key, including numeric keys ('950' -> 950)
+type TokenKey<T, K extends string> = K extends keyof T
+  ? K
+  : K extends `${infer N extends number}`
+    ? N extends keyof T ? N : never
+    : never;
+
+// Exact value type at a token path, e.g. TokenValue<typeof colors, 'primary.950'> -> '#222222'
+export type TokenValue<T, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? TokenValue<T[TokenKey<T, Head>], Rest>
+  : T[TokenKey<T, P>];
+
+// Check whether a value terminates a token path
+export function isTokenLeaf(value: unknown): value is TokenLeaf {
+  return typeof value === 'string' || typeof value === 'number' || Array.isArray(value);
+}
+
+// Flatten a token object into path/value entries in declaration order
+export function flattenTokens(tree: object, parentPath: string[] = []): FlatToken[] {
+  const entries: FlatToken[] = [];
+
+  for (const [key, value] of Object.entries(tree)) {
+    const path = [...parentPath, key];
+
+    if (isTokenLeaf(value)) {
+      entries.push({ path, value });
+    } else if (value && typeof value === 'object') {
+      entries.push(...flattenTokens(value, path));
+    }
+  }
+
+  return entries;
+}
+
+// Resolve a typed path against a token object, e.g. getTokenValue(colors, 'primary.950', 'Color')
+export function getTokenValue<T extends object, P extends TokenNodePath<T>>(
+  tree: T,
+  path: P,
+  label = 'Token'
+): TokenValue<T, P> {
+  let value: any = tree;
+
+  for (const key of path.split('.')) {
+    if (value && typeof value === 'object' && key in value) {
+      value = value[key];
+    } else {
+      throw new Error(`${label} path "${path}" not found`);
+    }
+  }
+
+  return value;
+}
+
+// Convert a camelCase token key to kebab-case (mobileMenu -> mobile-menu)
+export function toKebabCase(segment: string): string {
+  return segment.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+/**
+ * W3C Design Tokens (DTCG) interchange
+ *
+ * Serializes token trees to the Design Tokens Community Group format
+ * (https://tr.designtokens.org/format/) so designers' JSON-based tooling and
+ * the TypeScript source can round-trip without re-typing values.
+ *
+ * Type inference on export:
+ * - numbers -> number
+ * - font stacks -> fontFamily
+ * - [fontSize, { lineHeight }] tuples -> typography composite
+ * - hex/rgb/hsl/transparent -> color
+ * - fontWeight paths -> fontWeight (numeric)
+ * - box-shadow strings under shadows -> shadow composite
+ * - lengths (px, rem, em, %) -> dimension
+ * - ms/s times -> duration
+ * - cubic-bezier() easings -> cubicBezier ([x1, y1, x2, y2])
+ * - unitless numeric strings -> number
+ * - anything else is exported without a $type
+ *
+ * Import returns every value unchanged except shadows without a spread:
+ * DTCG shadows always carry one, so '0 0 20px #fff' comes back as the
+ * equivalent '0 0 20px 0 #fff'.
+ */
+
+export type DTCGTokenType =
+  | 'color'
+  | 'cubicBezier'
+  | 'dimension'
+  | 'duration'
+  | 'fontFamily'
+  | 'fontWeight'
+  | 'number'
+  | 'shadow'
+  | 'typography';
+
+export interface DTCGShadowValue {
+  color: string;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  inset?: boolean;
+}
+
+export interface DTCGToken {
+  $value: unknown;
+  $type?: DTCGTokenType | string;
+  $description?: string;
+}
+
+export interface DTCGGroup {
+  $type?: DTCGTokenType | string;
+  $description?: string;
+  [key: string]: DTCGToken | DTCGGroup | string | undefined;
+}
+
+export interface DTCGExportOptions {
+  descriptions?: Record<string, string>;   // Token path -> $description
+}
+
+// Widen `as const` literals so imported values type-check against the source shape
+export type WidenTokens<T> = T extends string
+  ? string
+  : T extends number
+    ? number
+    : T extends readonly unknown[]
+      ? { [K in keyof T]: WidenTokens<T[K]> }
+      : { [K in keyof T]: WidenTokens<T[K]> };
+
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|(rgba?|hsla?|oklch)\(.+\)|transparent)$/i;
+const DIMENSION_PATTERN = /^-?\d*\.?\d+(px|rem|em|%)$/;
+const NUMERIC_PATTERN = /^-?\d*\.?\d+$/;
+const DURATION_PATTERN = /^\d*\.?\d+m?s$/;
+const CUBIC_BEZIER_PATTERN = /^cubic-bezier\(([^)]+)\)$/;
+
+// Split a CSS value on a separator, ignoring separators inside parentheses
+function splitTopLevel(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth === 0 && separator.test(char)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// Parse a CSS box-shadow into layers, returns null when the value is not a shadow
+export function parseBoxShadow(value: string): DTCGShadowValue[] | null {
+  if (value === 'none') return null;
+
+  const layers: DTCGShadowValue[] = [];
+
+  for (const layer of splitTopLevel(value, /,/)) {
+    const parts = splitTopLevel(layer, /\s/);
+    const inset = parts[0] === 'inset';
+    const lengths = parts.filter(part => DIMENSION_PATTERN.test(part) || part === '0');
+    const color = parts.filter(part => part !== 'inset' && !lengths.includes(part)).join(' ');
+
+    if (lengths.length < 2 || lengths.length > 4 || !COLOR_PATTERN.test(color)) return null;
+
+    const [offsetX, offsetY, blur = '0', spread = '0'] = lengths;
+    layers.push({ color, offsetX, offsetY, blur, spread, ...(inset && { inset }) });
+  }
+
+  return layers.length ? layers : null;
+}
+
+// Serialize shadow layers back to a CSS box-shadow - always writes all four lengths
+export function formatBoxShadow(layers: DTCGShadowValue | DTCGShadowValue[]): string {
+  return (Array.isArray(layers) ? layers : [layers])
+    .map(({ color, offsetX, offsetY, blur, spread, inset }) =>
+      `${inset ? 'inset ' : ''}${offsetX} ${offsetY} ${blur} ${spread} ${color}`
+    )
+    .join(', ');
+}
+
+// Build a DTCG token for a single leaf
+function toDTCGToken(path: string[], value: TokenLeaf): DTCGToken {
+  if (typeof value === 'number') {
+    return { $type: 'number', $value: value };
+  }
+
+  if (Array.isArray(value)) {
+    if (value.every(item => typeof item === 'string')) {
+      return { $type: 'fontFamily', $value: [...value] };
+    }
+    const [fontSize, extra] = value as unknown as readonly [string, Record<string, string>];
+    return { $type: 'typography', $value: { fontSize, ...extra } };
+  }
+
+  const text = value as string;
+
+  if (path.includes('fontWeight') && NUMERIC_PATTERN.test(text)) {
+    return { $type: 'fontWeight', $value: Number(text) };
+  }
+  if (COLOR_PATTERN.test(text)) {
+    return { $type: 'color', $value: text };
+  }
+  if (path[0] === 'shadows') {
+    const layers = parseBoxShadow(text);
+    if (layers) {
+      return { $type: 'shadow', $value: layers.length === 1 ? layers[0] : layers };
+    }
+  }
+  if (DIMENSION_PATTERN.test(text)) {
+    return { $type: 'dimension', $value: text };
+  }
+  if (DURATION_PATTERN.test(text)) {
+    return { $type: 'duration', $value: text };
+  }
+  const bezier = CUBIC_BEZIER_PATTERN.exec(text);
+  if (bezier) {
+    return { $type: 'cubicBezier', $value: bezier[1].split(',').map(Number) };
+  }
+  if (NUMERIC_PATTERN.test(text)) {
+    return { $type: 'number', $value: Number(text) };
+  }
+
+  return { $value: text };
+}
+
+// Serialize a token tree to a DTCG document
+export function toDTCG(tree: object, options: DTCGExportOptions = {}): DTCGGroup {
+  const { descriptions = {} } = options;
+  const document: DTCGGroup = {};
+
+  for (const { path, value } of flattenTokens(tree)) {
+    let group = document;
+    for (const key of path.slice(0, -1)) {
+      group = (group[key] ??= {}) as DTCGGroup;
+    }
+
+    const token = toDTCGToken(path, value);
+    const description = descriptions[path.join('.')];
+    group[path[path.length - 1]] = description ? { ...token, $description: description } : token;
+  }
+
+  return document;
+}
+
+// Check whether a DTCG node is a token (as opposed to a group)
+function isDTCGToken(node: unknown): node is DTCGToken {
+  return !!node && typeof node === 'object' && '$value' in node;
+}
+
+// Convert a DTCG $value back to the token source representation
+function fromDTCGValue(value: unknown, type?: string): unknown {
+  if (type === 'shadow' && value && typeof value === 'object') {
+    return formatBoxShadow(value as DTCGShadowValue | DTCGShadowValue[]);
+  }
+  if (type === 'typography' && value && typeof value === 'object') {
+    const { fontSize, ...extra } = value as Record<string, string>;
+    return Object.keys(extra).length ? [fontSize, extra] : [fontSize];
+  }
+  if (type === 'fontWeight' && typeof value === 'number') {
+    return String(value);
+  }
+  if (type === 'cubicBezier' && Array.isArray(value)) {
+    return `cubic-bezier(${value.join(', ')})`;
+  }
+  // Newer drafts allow object forms - { value, unit } dimensions/durations and { hex } colors
+  if ((type === 'dimension' || type === 'duration') && value && typeof value === 'object' && 'unit' in value) {
+    const { value: amount, unit } = value as { value: number; unit: string };
+    return `${amount}${unit}`;
+  }
+  if (type === 'color' && value && typeof value === 'object' && 'hex' in value) {
+    return (value as { hex: string }).hex;
+  }
+  return value;
+}
+
+// Coerce an imported leaf to the JS type used by the reference token
+function coerceToReference(value: unknown, reference: unknown, path: string): unknown {
+  if (typeof reference === 'string' && typeof value === 'number') return String(value);
+  if (typeof reference === 'number' && typeof value === 'string' && NUMERIC_PATTERN.test(value)) {
+    return Number(value);
+  }
+  if (typeof reference !== typeof value) {
+    throw new Error(`DTCG token "${path}" does not match the reference token type`);
+  }
+  return value;
+}
+
+// Walk a DTCG group into a plain token tree, inheriting group-level $type
+function readDTCGGroup(group: DTCGGroup, inheritedType?: string): Record<string, unknown> {
+  const tree: Record<string, unknown> = {};
+  const groupType = group.$type ?? inheritedType;
+
+  for (const [key, node] of Object.entries(group)) {
+    if (key.startsWith('$') || !node || typeof node !== 'object') continue;
+
+    tree[key] = isDTCGToken(node)
+      ? fromDTCGValue(node.$value, node.$type ?? groupType)
+      : readDTCGGroup(node as DTCGGroup, groupType);
+  }
+
+  return tree;
+}
+
+// Import a DTCG document into a token tree, checked against a reference tree when given
+export function fromDTCG(document: DTCGGroup): Record<string, unknown>;
+export function fromDTCG<T extends object>(document: DTCGGroup, reference: T): WidenTokens<T>;
+export function fromDTCG(document: DTCGGroup, reference?: object): unknown {
+  const tree = readDTCGGroup(document);
+  if (!reference) return tree;
+
+  for (const { path, value } of flattenTokens(reference)) {
+    const key = path.join('.');
+    const parent = path.slice(0, -1).reduce<any>((node, segment) => node?.[segment], tree);
+    const leaf = path[path.length - 1];
+
+    if (!parent || !(leaf in parent)) {
+      throw new Error(`DTCG token "${key}" not found`);
+    }
+    parent[leaf] = Array.isArray(value) ? parent[leaf] : coerceToReference(parent[leaf], value, key);
+  }
+
+  return tree;
+}
+
+// Collect $description entries by token path
+export function collectDTCGDescriptions(document: DTCGGroup, parentPath: string[] = []): Record<string, string> {
+  const descriptions: Record<string, string> = {};
+
+  for (const [key, node] of Object.entries(document)) {
+    if (key.startsWith('$') || !node || typeof node !== 'object') continue;
+    const path = [...parentPath, key];
+
+    if (isDTCGToken(node)) {
+      if (node.$description) descriptions[path.join('.')] = node.$description;
+    } else {
+      Object.assign(descriptions, collectDTCGDescriptions(node as DTCGGroup, path));
+    }
+  }
+
+  return descriptions;
+}
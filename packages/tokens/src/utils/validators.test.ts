@@ -0,0 +1,118 @@
+import { colors } from '../base/colors';
+import { lightTheme } from '../semantic/theme-light';
+import { darkTheme } from '../semantic/theme-dark';
+import { highContrastTheme } from '../semantic/theme-high-contrast';
+import { tokens } from '../tokens';
+import {
+  apcaContrast,
+  assertContrast,
+  assertTokens,
+  checkContrast,
+  contrastRatio,
+  formatContrastReport,
+  getThemeContrastPairs,
+  getTokenContrastPairs,
+  getTokenSchema,
+  tokenValueCheckers,
+  validateContrast,
+  validateTokens,
+} from './validators';
+
+describe('Token structure validator', () => {
+  it('accepts every token in the tree', () => {
+    const report = assertTokens();
+    expect(report.checked).toBeGreaterThan(250);
+  });
+
+  it('resolves the most specific schema for a path', () => {
+    expect(getTokenSchema('borders.rings.width.thin')?.kinds).toEqual(['dimension']);
+    expect(getTokenSchema('borders.rings.colors.focus')?.kinds).toEqual(['color']);
+    expect(getTokenSchema('borders.components.input.padding')).toBeUndefined();
+  });
+
+  it.each([
+    ['color', '#22222', 'rgb(300 0 0)'],
+    ['dimension', '16', 'rem'],
+    ['zIndex', 1.5, 10001],
+    ['shadow', '0 1px rgb(0 0 0', 'shadow'],
+    ['easing', 'cubic-bezier(1.2, 0, 0, 1)', 'bounce'],
+    ['fontSize', ['16', { lineHeight: '1.5rem' }], ['1rem', { lineHeight: 'tall' }]],
+  ] as const)('rejects malformed %s values', (kind, ...values) => {
+    values.forEach(value => expect(tokenValueCheckers[kind](value as never)).toBe(false));
+  });
+
+  it('reports invalid leaves and repeated scale steps', () => {
+    const tree = {
+      ...tokens,
+      spacing: { ...tokens.spacing, component: { ...tokens.spacing.component, md: '16', lg: tokens.spacing.component.sm } },
+      zIndex: { ...tokens.zIndex, maximum: { ...tokens.zIndex.maximum, emergency: 99999 } },
+      // Repeats outside scales are aliases, not mistakes
+      typography: { ...tokens.typography, colors: { ...tokens.typography.colors, link: tokens.typography.colors.primary } },
+    };
+
+    expect(validateTokens(tree).issues).toEqual([
+      { path: 'spacing.component.md', value: '16', type: 'invalid', message: 'expected dimension' },
+      { path: 'spacing.component.lg', value: tokens.spacing.component.sm, type: 'duplicate', message: 'same value as spacing.component.sm' },
+      { path: 'zIndex.maximum.emergency', value: 99999, type: 'invalid', message: 'expected zIndex' },
+    ]);
+    expect(() => assertTokens(tree)).toThrow('Invalid tokens: spacing.component.md = "16" (expected dimension)');
+  });
+});
+
+describe('Contrast validator', () => {
+  it('computes WCAG 2.x contrast ratios', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+    expect(contrastRatio('#ffffff', '#ffffff')).toBe(1);
+    expect(contrastRatio('rgb(0 0 0 / 0.5)', '#ffffff')).toBeCloseTo(contrastRatio('#808080', '#ffffff'), 1);
+  });
+
+  it('computes APCA lightness contrast', () => {
+    expect(apcaContrast('#000000', '#ffffff')).toBeCloseTo(106.04, 1);
+    expect(apcaContrast('#ffffff', '#000000')).toBeCloseTo(-107.88, 1);
+    expect(checkContrast({ name: 'large', foreground: '#767676', background: '#ffffff', usage: 'large-text' }, { apca: true }))
+      .toMatchObject({ aa: true, aaa: true, apcaPass: true });
+  });
+
+  it('flags warning text on white below AA', () => {
+    const report = validateContrast(getTokenContrastPairs());
+    const warning = report.results.find(result => result.name === 'typography.colors.warning on base.white');
+
+    expect(warning).toMatchObject({ foreground: colors.semantic.warning[500], aa: false });
+    expect(report.failures).toContainEqual(warning);
+  });
+
+  it('throws with every failing pair', () => {
+    const pairs = [
+      { name: 'warning on white', foreground: colors.semantic.warning[500], background: colors.base.white },
+      { name: 'brand on white', foreground: colors.primary[950], background: colors.base.white },
+    ];
+
+    expect(() => assertContrast(pairs)).toThrow('Contrast below AA: warning on white (2.15:1)');
+    expect(() => assertContrast(pairs.slice(1), { level: 'AAA', apca: true })).not.toThrow();
+  });
+
+  it.each([
+    ['light', lightTheme],
+    ['dark', darkTheme],
+    ['high-contrast', highContrastTheme],
+  ])('%s theme meets AA for every pair', (name, theme) => {
+    const report = validateContrast(getThemeContrastPairs(theme, name));
+
+    expect(report.results.length).toBeGreaterThanOrEqual(30);
+    expect(report.failures).toEqual([]);
+  });
+
+  it('high contrast theme meets AAA for every pair', () => {
+    const pairs = getThemeContrastPairs(highContrastTheme, 'high-contrast');
+    expect(() => assertContrast(pairs, { level: 'AAA' })).not.toThrow();
+  });
+
+  it('formats a markdown report', () => {
+    const report = validateContrast(getTokenContrastPairs().slice(0, 2), { apca: true });
+    const markdown = formatContrastReport(report);
+
+    expect(markdown).toContain('| Pair | Usage | Ratio | AA | AAA | APCA Lc |');
+    expect(markdown).toContain('| typography.colors.primary on base.white | text | 15.91:1 | pass | pass | 102.9 (pass) |');
+    expect(markdown).toContain('0 of 2 pairs below AA');
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Boombox Design System - Token Validators
+ *
+ * Structure checks for the hand-typed token files: every leaf is checked
+ * against its group's schema (colors parse, spacing has units, z-index values
+ * are integers in range, shadows parse) and scale steps must not repeat a value.
+ *
+ * Contrast checks for every foreground/background pairing the themes and
+ * token conventions imply (text on surfaces, input text on slate-100,
+ * white on semantic buttons). Reports WCAG 2.x AA/AAA results and,
+ * optionally, APCA lightness contrast (Lc).
+ *
+ * Thresholds by usage:
+ * - text:       WCAG AA 4.5:1, AAA 7:1 - APCA Lc 60
+ * - large-text: WCAG AA 3:1,   AAA 4.5:1 - APCA Lc 45 (24px+, or 18.66px+ bold)
+ * - ui:         WCAG AA 3:1 (non-text contrast, no AAA level) - APCA Lc 30
+ *
+ * Use `validateTokens`/`validateContrast` for a report and
+ * `assertTokens`/`assertContrast` in tests.
+ */
+
+import { colors } from '../base/colors';
+import { typography } from '../base/typography';
+import { zIndexUtils } from '../base/z-index';
+import type { ThemeContract } from '../semantic/theme-contract';
+import { tokens } from '../tokens';
+import { compositeColor, parseColor, relativeLuminance, type RGBA } from './color';
+import { flattenTokens, parseBoxShadow, type TokenLeaf } from './token-transformer';
+
+export type TokenValueKind =
+  | 'color'
+  | 'dimension'
+  | 'number'
+  | 'fontFamily'
+  | 'fontSize'
+  | 'fontWeight'
+  | 'zIndex'
+  | 'shadow'
+  | 'duration'
+  | 'easing';
+
+export interface TokenSchema {
+  kinds: TokenValueKind[];   // Accepted value kinds
+  unique?: boolean;          // Scale steps - sibling leaves must not share a value
+}
+
+export type TokenIssueType = 'invalid' | 'duplicate';
+
+export interface TokenIssue {
+  path: string;              // e.g. 'spacing.component.md'
+  value: TokenLeaf;
+  type: TokenIssueType;
+  message: string;
+}
+
+export interface TokenValidationReport {
+  checked: number;           // Leaves covered by a schema
+  issues: TokenIssue[];
+}
+
+// Schemas by group path - the longest matching prefix applies, unlisted groups
+// (component recipes, utilities, composite transitions) are not checked
+export const tokenSchemas: Record<string, TokenSchema> = {
+  colors: { kinds: ['color'], unique: true },
+  'typography.fontFamily': { kinds: ['fontFamily'] },
+  'typography.fontSize': { kinds: ['fontSize'], unique: true },
+  'typography.fluid': { kinds: ['fontSize'], unique: true },
+  'typography.fontWeight': { kinds: ['fontWeight'], unique: true },
+  'typography.lineHeight': { kinds: ['dimension', 'number'], unique: true },
+  'typography.letterSpacing': { kinds: ['dimension'], unique: true },
+  'typography.colors': { kinds: ['color'] },
+  spacing: { kinds: ['dimension'], unique: true },
+  'borders.width': { kinds: ['dimension'], unique: true },
+  'borders.radius': { kinds: ['dimension'], unique: true },
+  'borders.colors': { kinds: ['color'] },
+  'borders.rings.width': { kinds: ['dimension'], unique: true },
+  'borders.rings.colors': { kinds: ['color'] },
+  'borders.rings.offset': { kinds: ['dimension'], unique: true },
+  'shadows.elevation': { kinds: ['shadow'], unique: true },
+  'shadows.colors': { kinds: ['color'] },
+  'shadows.semantic': { kinds: ['shadow'] },
+  'breakpoints.screens': { kinds: ['dimension'], unique: true },
+  'breakpoints.containerQueries': { kinds: ['dimension'], unique: true },
+  'breakpoints.containers': { kinds: ['dimension'], unique: true },
+  zIndex: { kinds: ['zIndex'] },
+  'motion.duration': { kinds: ['duration'], unique: true },
+  'motion.easing': { kinds: ['easing'] },
+};
+
+// Lengths need a unit - only zero may be unitless
+const DIMENSION_PATTERN = /^(0|-?\d*\.?\d+(px|rem|em|%|vw|vh|ch))$/;
+const FLUID_DIMENSION_PATTERN = /^(clamp|min|max|calc)\(.+\)$/;
+const NUMERIC_PATTERN = /^-?\d*\.?\d+$/;
+const DURATION_PATTERN = /^\d*\.?\d+m?s$/;
+const EASING_KEYWORDS = ['linear', 'ease', 'ease-in', 'ease-out', 'ease-in-out'];
+
+// Valid CSS color with channels and alpha in range
+function isColor(value: string): boolean {
+  if (value === 'transparent' || value === 'currentColor') return true;
+  const rgba = parseColor(value);
+  return !!rgba && rgba.every(Number.isFinite) && rgba.slice(0, 3).every(channel => channel >= 0 && channel <= 255)
+    && rgba[3] >= 0 && rgba[3] <= 1;
+}
+
+function isDimension(value: unknown): boolean {
+  return typeof value === 'string' && (DIMENSION_PATTERN.test(value) || FLUID_DIMENSION_PATTERN.test(value));
+}
+
+// cubic-bezier() x values must stay within 0-1
+function isEasing(value: string): boolean {
+  if (EASING_KEYWORDS.includes(value)) return true;
+  const points = /^cubic-bezier\(([^)]+)\)$/.exec(value)?.[1].split(',').map(Number);
+  return !!points && points.length === 4 && points.every(Number.isFinite)
+    && points[0] >= 0 && points[0] <= 1 && points[2] >= 0 && points[2] <= 1;
+}
+
+// [fontSize, { lineHeight, letterSpacing, fontWeight }] tuples
+function isFontSize(value: TokenLeaf): boolean {
+  if (!Array.isArray(value) || !isDimension(value[0])) return false;
+  const { lineHeight, letterSpacing, fontWeight } = (value[1] ?? {}) as Record<string, unknown>;
+  return (lineHeight === undefined || isDimension(lineHeight) || NUMERIC_PATTERN.test(String(lineHeight)))
+    && (letterSpacing === undefined || isDimension(letterSpacing))
+    && (fontWeight === undefined || tokenValueCheckers.fontWeight(fontWeight as TokenLeaf));
+}
+
+// Check a leaf against one value kind
+export const tokenValueCheckers: Record<TokenValueKind, (value: TokenLeaf) => boolean> = {
+  color: value => typeof value === 'string' && isColor(value),
+  dimension: isDimension,
+  number: value => typeof value === 'number' ? Number.isFinite(value) : typeof value === 'string' && NUMERIC_PATTERN.test(value),
+  fontFamily: value => Array.isArray(value) && value.length > 0 && value.every(font => typeof font === 'string' && font.trim() !== ''),
+  fontSize: isFontSize,
+  fontWeight: value => NUMERIC_PATTERN.test(String(value)) && Number(value) % 100 === 0 && Number(value) >= 100 && Number(value) <= 900,
+  zIndex: value => typeof value === 'number' && Number.isInteger(value) && zIndexUtils.validateZIndex(value),
+  shadow: value => typeof value === 'string' && (value === 'none' || parseBoxShadow(value) !== null),
+  duration: value => typeof value === 'string' && DURATION_PATTERN.test(value),
+  easing: value => typeof value === 'string' && isEasing(value),
+};
+
+// Schema for a leaf path, e.g. 'typography.fontSize.sm' -> tokenSchemas['typography.fontSize']
+export function getTokenSchema(path: string, schemas: Record<string, TokenSchema> = tokenSchemas): TokenSchema | undefined {
+  const segments = path.split('.');
+  for (let length = segments.length - 1; length > 0; length--) {
+    const schema = schemas[segments.slice(0, length).join('.')];
+    if (schema) return schema;
+  }
+  return undefined;
+}
+
+// Check every leaf against its schema and flag repeated values within scales
+export function validateTokens(
+  tree: object = tokens,
+  schemas: Record<string, TokenSchema> = tokenSchemas
+): TokenValidationReport {
+  const issues: TokenIssue[] = [];
+  const scales = new Map<string, Map<string, string>>();
+  let checked = 0;
+
+  for (const { path: segments, value } of flattenTokens(tree)) {
+    const path = segments.join('.');
+    const schema = getTokenSchema(path, schemas);
+    if (!schema) continue;
+    checked++;
+
+    if (!schema.kinds.some(kind => tokenValueCheckers[kind](value))) {
+      issues.push({ path, value, type: 'invalid', message: `expected ${schema.kinds.join(' or ')}` });
+    }
+
+    if (schema.unique) {
+      const parent = segments.slice(0, -1).join('.');
+      const seen = scales.get(parent) ?? new Map<string, string>();
+      const key = JSON.stringify(value);
+      const original = seen.get(key);
+      if (original) {
+        issues.push({ path, value, type: 'duplicate', message: `same value as ${original}` });
+      } else {
+        seen.set(key, path);
+      }
+      scales.set(parent, seen);
+    }
+  }
+
+  return { checked, issues };
+}
+
+// Throw when any token fails its schema or repeats a scale value
+export function assertTokens(
+  tree: object = tokens,
+  schemas: Record<string, TokenSchema> = tokenSchemas
+): TokenValidationReport {
+  const report = validateTokens(tree, schemas);
+
+  if (report.issues.length) {
+    const details = report.issues
+      .map(({ path, value, message }) => `${path} = ${JSON.stringify(value)} (${message})`)
+      .join(', ');
+    throw new Error(`Invalid tokens: ${details}`);
+  }
+
+  return report;
+}
+
+export type ContrastUsage = 'text' | 'large-text' | 'ui';
+export type ContrastLevel = 'AA' | 'AAA';
+
+export interface ContrastPair {
+  name: string;              // e.g. 'light: text.primary on surface.default'
+  foreground: string;
+  background: string;
+  usage?: ContrastUsage;     // Defaults to 'text'
+}
+
+export interface ContrastResult extends Required<ContrastPair> {
+  ratio: number;             // WCAG 2.x ratio, rounded to 2 decimals
+  aa: boolean;
+  aaa: boolean;
+  apca?: number;             // APCA Lc, present when requested
+  apcaPass?: boolean;
+}
+
+export interface ContrastReport {
+  results: ContrastResult[];
+  failures: ContrastResult[];   // Results below the requested level
+  level: ContrastLevel;
+}
+
+export interface ContrastOptions {
+  level?: ContrastLevel;     // Level counted as a failure, defaults to AA
+  apca?: boolean;            // Also compute APCA Lc
+}
+
+// Minimum WCAG 2.x ratios per usage
+export const wcagThresholds: Record<ContrastUsage, Record<ContrastLevel, number>> = {
+  text: { AA: 4.5, AAA: 7 },
+  'large-text': { AA: 3, AAA: 4.5 },
+  ui: { AA: 3, AAA: 3 },
+};
+
+// Minimum APCA Lc per usage
+export const apcaThresholds: Record<ContrastUsage, number> = {
+  text: 60,
+  'large-text': 45,
+  ui: 30,
+};
+
+// Parse a color, compositing translucent colors onto the layer below
+function resolveColor(value: string, below: RGBA = [255, 255, 255, 1]): RGBA {
+  const rgba = parseColor(value);
+  if (!rgba) {
+    throw new Error(`Color "${value}" cannot be checked for contrast`);
+  }
+  return rgba[3] < 1 ? compositeColor(rgba, below) : rgba;
+}
+
+// WCAG 2.x contrast ratio between two colors (1 - 21)
+export function contrastRatio(foreground: string, background: string): number {
+  const bg = resolveColor(background);
+  const lighter = relativeLuminance(resolveColor(foreground, bg));
+  const darker = relativeLuminance(bg);
+  const [high, low] = lighter > darker ? [lighter, darker] : [darker, lighter];
+  return (high + 0.05) / (low + 0.05);
+}
+
+// APCA-W3 0.1.9 screen luminance with soft black clamp
+function apcaLuminance([r, g, b]: RGBA): number {
+  const y = 0.2126729 * (r / 255) ** 2.4 + 0.7151522 * (g / 255) ** 2.4 + 0.072175 * (b / 255) ** 2.4;
+  return y > 0.022 ? y : y + (0.022 - y) ** 1.414;
+}
+
+// APCA lightness contrast (Lc) - positive for dark on light, negative for light on dark
+export function apcaContrast(foreground: string, background: string): number {
+  const bg = resolveColor(background);
+  const yText = apcaLuminance(resolveColor(foreground, bg));
+  const yBackground = apcaLuminance(bg);
+
+  if (Math.abs(yBackground - yText) < 0.0005) return 0;
+
+  if (yBackground > yText) {
+    const sapc = (yBackground ** 0.56 - yText ** 0.57) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+
+  const sapc = (yBackground ** 0.65 - yText ** 0.62) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+// Check a single pairing
+export function checkContrast(pair: ContrastPair, options: ContrastOptions = {}): ContrastResult {
+  const usage = pair.usage ?? 'text';
+  const ratio = Math.round(contrastRatio(pair.foreground, pair.background) * 100) / 100;
+  const result: ContrastResult = {
+    ...pair,
+    usage,
+    ratio,
+    aa: ratio >= wcagThresholds[usage].AA,
+    aaa: ratio >= wcagThresholds[usage].AAA,
+  };
+
+  if (options.apca) {
+    const lc = Math.round(apcaContrast(pair.foreground, pair.background) * 10) / 10;
+    result.apca = lc;
+    result.apcaPass = Math.abs(lc) >= apcaThresholds[usage];
+  }
+
+  return result;
+}
+
+// Check every pairing and collect failures at the requested level
+export function validateContrast(pairs: ContrastPair[], options: ContrastOptions = {}): ContrastReport {
+  const level = options.level ?? 'AA';
+  const results = pairs.map(pair => checkContrast(pair, options));
+  const failures = results.filter(result =>
+    (level === 'AA' ? !result.aa : !result.aaa) || result.apcaPass === false
+  );
+  return { results, failures, level };
+}
+
+// Throw when any pairing is below the requested level
+export function assertContrast(pairs: ContrastPair[], options: ContrastOptions = {}): ContrastReport {
+  const report = validateContrast(pairs, options);
+
+  if (report.failures.length) {
+    const details = report.failures
+      .map(({ name, ratio, apca }) => `${name} (${ratio}:1${apca === undefined ? '' : `, Lc ${apca}`})`)
+      .join(', ');
+    throw new Error(`Contrast below ${report.level}: ${details}`);
+  }
+
+  return report;
+}
+
+// Pairings implied by a semantic theme
+export function getThemeContrastPairs(theme: ThemeContract, name = 'theme'): ContrastPair[] {
+  const { surface, text, border, interactive, feedback } = theme.colors;
+  const pairs: ContrastPair[] = [];
+  const add = (fg: string, fgValue: string, bg: string, bgValue: string, usage?: ContrastUsage) =>
+    pairs.push({ name: `${name}: ${fg} on ${bg}`, foreground: fgValue, background: bgValue, ...(usage && { usage }) });
+
+  // Body text on every opaque content surface (disabled text is exempt from WCAG)
+  for (const surfaceKey of ['default', 'subtle', 'muted', 'raised'] as const) {
+    for (const textKey of ['primary', 'secondary', 'muted', 'link'] as const) {
+      add(`text.${textKey}`, text[textKey], `surface.${surfaceKey}`, surface[surfaceKey]);
+    }
+  }
+  add('text.inverse', text.inverse, 'surface.inverse', surface.inverse);
+
+  // Button labels in every interactive state
+  for (const variant of ['primary', 'secondary'] as const) {
+    for (const state of ['default', 'hover', 'active'] as const) {
+      add(
+        `interactive.${variant}.foreground`,
+        interactive[variant].foreground,
+        `interactive.${variant}.${state}`,
+        interactive[variant][state]
+      );
+    }
+  }
+
+  // Feedback messages on their tinted background and on the page, labels on solid badges
+  for (const [status, slots] of Object.entries(feedback)) {
+    add(`feedback.${status}.foreground`, slots.foreground, `feedback.${status}.background`, slots.background);
+    add(`feedback.${status}.foreground`, slots.foreground, 'surface.default', surface.default);
+    add(`feedback.${status}.onSolid`, slots.onSolid, `feedback.${status}.solid`, slots.solid);
+  }
+
+  // Non-text contrast for focus rings and strong borders
+  add('focus.color', theme.focus.color, 'surface.default', surface.default, 'ui');
+  add('border.strong', border.strong, 'surface.default', surface.default, 'ui');
+
+  return pairs;
+}
+
+// Pairings implied by base token usage outside the themes
+export function getTokenContrastPairs(): ContrastPair[] {
+  const pairs: ContrastPair[] = [];
+  const textColors = Object.entries(typography.colors).filter(([key]) => key !== 'inverse' && key !== 'disabled');
+
+  // Text colors on white pages and slate-100 input backgrounds
+  for (const [key, value] of textColors) {
+    pairs.push({ name: `typography.colors.${key} on base.white`, foreground: value, background: colors.base.white });
+    pairs.push({ name: `typography.colors.${key} on secondary.100`, foreground: value, background: colors.secondary[100] });
+  }
+
+  // White labels on semantic 600 buttons
+  for (const [status, scale] of Object.entries(colors.semantic)) {
+    if ('600' in scale) {
+      pairs.push({
+        name: `base.white on semantic.${status}.600`,
+        foreground: colors.base.white,
+        background: (scale as Record<string, string>)['600'],
+      });
+    }
+  }
+
+  return pairs;
+}
+
+// Render a report as a markdown table
+export function formatContrastReport(report: ContrastReport): string {
+  const hasApca = report.results.some(result => result.apca !== undefined);
+  const header = ['Pair', 'Usage', 'Ratio', 'AA', 'AAA', ...(hasApca ? ['APCA Lc'] : [])];
+  const mark = (pass: boolean) => (pass ? 'pass' : 'FAIL');
+
+  const rows = report.results.map(result => [
+    result.name,
+    result.usage,
+    `${result.ratio}:1`,
+    mark(result.aa),
+    mark(result.aaa),
+    ...(hasApca ? [`${result.apca} (${mark(!!result.apcaPass)})`] : []),
+  ]);
+
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+    '',
+    `${report.failures.length} of ${report.results.length} pairs below ${report.level}`,
+    '',
+  ].join('\n');
+}
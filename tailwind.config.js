@@ -1,5 +1,8 @@
 /** @type {import('tailwindcss').Config} */
+const tokensPreset = require('@boombox/tokens/tailwind');
+
 module.exports = {
+  presets: [tokensPreset],
   content: [
     "./packages/*/src/**/*.{js,ts,jsx,tsx}",
     "./apps/*/src/**/*.{js,ts,jsx,tsx}",
@@ -8,9 +11,7 @@ module.exports = {
     "./stories/**/*.{js,ts,jsx,tsx}",
   ],
   theme: {
-    extend: {
-      // Design tokens will be injected here from @boombox/tokens
-    },
+    extend: {},
   },
   plugins: [],
 }
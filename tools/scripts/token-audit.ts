@@ -0,0 +1,77 @@
+// Token usage audit - reports hardcoded colors and Tailwind color/shadow/z-index classes
+// in an application source tree, and optionally rewrites them to tokens
+//
+// Usage: npm run tokens:audit -- <dir> [--write] [--include-near] [--json] [--out report.md] [--ext .tsx,.css]
+//
+// --write rewrites exact matches in place (add --include-near for near matches).
+// Review the diff afterwards - raw colors become var(--bb-color-*) references,
+// which need the generated css-variables.css loaded by the app.
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import { extname, join, relative } from 'path';
+import { applyTokenCodemod, formatTokenUsageReport, scanTokenUsage, type FileTokenUsage } from './token-usage';
+
+const DEFAULT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.css', '.scss'];
+
+// Generated and third-party directories
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', '.next', '.turbo', 'dist', 'build', 'coverage']);
+
+// List source files below a directory
+function listFiles(dir: string, extensions: string[]): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return IGNORED_DIRECTORIES.has(entry.name) ? [] : listFiles(path, extensions);
+    return entry.isFile() && extensions.includes(extname(entry.name)) ? [path] : [];
+  });
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => args.includes(name);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index === -1 ? undefined : args[index + 1];
+  };
+  const optionValues = ['--out', '--ext'].map(name => option(name));
+  const [target] = args.filter(arg => !arg.startsWith('--') && !optionValues.includes(arg));
+
+  if (!target) {
+    throw new Error('Usage: tokens:audit <dir> [--write] [--include-near] [--json] [--out file] [--ext .tsx,.css]');
+  }
+
+  const extensions = option('--ext')?.split(',') ?? DEFAULT_EXTENSIONS;
+  const results: FileTokenUsage[] = listFiles(target, extensions).map(file => ({
+    file: relative(target, file),
+    hits: scanTokenUsage(readFileSync(file, 'utf8')),
+  }));
+
+  const report = flag('--json')
+    ? `${JSON.stringify(results.filter(result => result.hits.length), null, 2)}\n`
+    : formatTokenUsageReport(results, `Token usage: ${target}`);
+  const out = option('--out');
+  if (out) writeFileSync(out, report);
+  else process.stdout.write(report);
+
+  if (flag('--write')) {
+    let applied = 0;
+    let files = 0;
+
+    for (const { file, hits } of results) {
+      const path = join(target, file);
+      const result = applyTokenCodemod(readFileSync(path, 'utf8'), hits, { includeNear: flag('--include-near') });
+      if (!result.applied) continue;
+
+      writeFileSync(path, result.output);
+      applied += result.applied;
+      files++;
+    }
+
+    console.error(`Rewrote ${applied} values in ${files} files`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,78 @@
+import { applyTokenCodemod, scanTokenUsage } from './token-usage';
+
+// Scan and rewrite in one step, as token-audit --write does
+const rewrite = (source: string, includeNear = false) =>
+  applyTokenCodemod(source, scanTokenUsage(source), { includeNear });
+
+describe('Token usage', () => {
+  it('keeps variant prefixes and opacity modifiers', () => {
+    const hits = scanTokenUsage('<div className="hover:bg-slate-100/50 sm:focus:text-zinc-400 hover:bg-zinc-950/50" />');
+
+    expect(hits.map(({ match, replacement }) => [match, replacement])).toEqual([
+      ['hover:bg-slate-100/50', 'hover:bg-secondary-100/50'],
+      ['sm:focus:text-zinc-400', 'sm:focus:text-primary-400'],
+      ['hover:bg-zinc-950/50', undefined],
+    ]);
+    expect(hits[2]).toMatchObject({ token: 'colors.primary.950', quality: 'none' });
+  });
+
+  it('reports arbitrary color classes once', () => {
+    const hits = scanTokenUsage('<div className="bg-[#222222] hover:border-[rgb(241_245_249)]" />');
+
+    expect(hits).toHaveLength(2);
+    expect(hits.map(({ kind, replacement }) => [kind, replacement])).toEqual([
+      ['tailwind-color', 'bg-primary-950'],
+      ['tailwind-color', 'hover:border-secondary-100'],
+    ]);
+  });
+
+  it('leaves fragment links and ids that look like hex alone', () => {
+    const source = [
+      '<a href="#add" id="#fab"><svg fill="url(#bed)"><use xlinkHref={`#dad`} /></svg></a>',
+      "<p style={{ color: '#222222' }} />",
+    ].join('\n');
+
+    expect(scanTokenUsage(source).map(({ match, line }) => [match, line])).toEqual([['#222222', 2]]);
+    expect(applyTokenCodemod(source, scanTokenUsage(source)).output).toContain('<a href="#add" id="#fab">');
+  });
+
+  it('rewrites near matches only when asked', () => {
+    const source = "const styles = { color: '#222222', background: '#f8f9fa' };";
+
+    expect(rewrite(source)).toEqual({
+      output: "const styles = { color: 'var(--bb-color-primary-950)', background: '#f8f9fa' };",
+      applied: 1,
+    });
+    expect(rewrite(source, true)).toEqual({
+      output: "const styles = { color: 'var(--bb-color-primary-950)', background: 'var(--bb-color-secondary-50)' };",
+      applied: 2,
+    });
+  });
+
+  it('keeps offsets when rewriting several hits in one file', () => {
+    const source = [
+      '<div className="bg-slate-100 text-[#222222] z-50">',
+      "  <span style={{ color: '#222222', borderColor: '#f1f5f9' }} className=\"shadow-custom-shadow\" />",
+      '</div>',
+    ].join('\n');
+    const hits = scanTokenUsage(source);
+
+    expect(hits.map(({ match, line, column }) => [match, line, column])).toEqual([
+      ['bg-slate-100', 1, 17],
+      ['text-[#222222]', 1, 30],
+      ['z-50', 1, 45],
+      ['#222222', 2, 26],
+      ['#f1f5f9', 2, 50],
+      ['shadow-custom-shadow', 2, 73],
+    ]);
+    // z-index classes need a human decision and stay as written
+    expect(applyTokenCodemod(source, hits)).toEqual({
+      output: [
+        '<div className="bg-secondary-100 text-primary-950 z-50">',
+        "  <span style={{ color: 'var(--bb-color-primary-950)', borderColor: 'var(--bb-color-secondary-100)' }} className=\"shadow-custom\" />",
+        '</div>',
+      ].join('\n'),
+      applied: 5,
+    });
+  });
+});
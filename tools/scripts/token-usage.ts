@@ -0,0 +1,248 @@
+// Token usage - finds hardcoded colors and Tailwind color/shadow/z-index classes in
+// application source and maps each hit to the design token that should replace it.
+//
+// What is reported:
+// - raw colors: hex codes and rgb()/rgba()/hsl()/oklch() literals -> var(--bb-color-*)
+// - Tailwind palette classes (bg-slate-100, hover:text-zinc-950/50) -> preset classes (bg-secondary-100)
+// - arbitrary color classes (bg-[#222222]) -> preset classes (bg-primary-950)
+// - shadow-custom-shadow -> shadow-custom, arbitrary shadows matching an elevation token
+// - z-10 ... z-50 -> candidate layer classes - these depend on context and are never rewritten
+//
+// Only 'exact' hits are rewritten by default; 'near' hits need `includeNear`.
+import tailwindColors from 'tailwindcss/colors';
+import {
+  findNearestColorToken,
+  shadows,
+  tailwindColorName,
+  toCssVariableName,
+  toKebabCase,
+  type TokenMatchQuality,
+} from '@boombox/tokens';
+
+export type TokenUsageKind = 'color' | 'tailwind-color' | 'tailwind-shadow' | 'tailwind-z-index';
+
+// 'review' hits have token candidates but need a human decision
+export type TokenUsageQuality = TokenMatchQuality | 'review';
+
+export interface TokenUsageHit {
+  kind: TokenUsageKind;
+  match: string;                // Source text
+  index: number;                // Offset in the source
+  line: number;                 // 1-based
+  column: number;               // 1-based
+  token?: string;               // Suggested token path
+  quality: TokenUsageQuality;
+  replacement?: string;         // Codemod output for the match
+  note?: string;
+}
+
+export interface FileTokenUsage {
+  file: string;
+  hits: TokenUsageHit[];
+}
+
+export interface CodemodOptions {
+  includeNear?: boolean;        // Also rewrite 'near' matches, defaults to false
+}
+
+export interface CodemodResult {
+  output: string;
+  applied: number;
+}
+
+// Tailwind palettes boombox-10.0 classes may use - deprecated aliases are left out
+const PALETTES = [
+  'slate', 'gray', 'zinc', 'neutral', 'stone', 'red', 'orange', 'amber', 'yellow', 'lime', 'green', 'emerald',
+  'teal', 'cyan', 'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose',
+];
+
+// Utilities that take a color
+const COLOR_UTILITIES = [
+  'bg', 'text', 'border', 'border-[trblxy]', 'ring', 'ring-offset', 'outline', 'divide', 'fill', 'stroke',
+  'from', 'via', 'to', 'placeholder', 'decoration', 'accent', 'caret',
+].join('|');
+
+// Variant prefixes (hover:, sm:, group-hover:) are kept as written
+const VARIANTS = '((?:[\\w-]+:)*)';
+
+const PALETTE_CLASS_PATTERN = new RegExp(
+  `(?<![\\w-])${VARIANTS}(${COLOR_UTILITIES})-(${PALETTES.join('|')})-(50|[1-9]00|950)(?:\\/(\\d+))?(?![\\w-])`,
+  'g'
+);
+const ARBITRARY_COLOR_CLASS_PATTERN = new RegExp(
+  `(?<![\\w-])${VARIANTS}(${COLOR_UTILITIES})-\\[(#[0-9a-fA-F]{3,8}|(?:rgba?|hsla?)\\([^\\]\\s]*\\))\\](?![\\w-])`,
+  'g'
+);
+const SHADOW_CLASS_PATTERN = new RegExp(`(?<![\\w-])${VARIANTS}shadow-(custom-shadow|\\[[^\\]\\s]+\\])(?![\\w-])`, 'g');
+const Z_INDEX_CLASS_PATTERN = new RegExp(`(?<![\\w-])${VARIANTS}z-(10|20|30|40|50)(?![\\w-])`, 'g');
+// Fragment links and ids can be valid hex (href="#add", xlinkHref="#bed", url(#fade)) - skip those values
+const FRAGMENT_CONTEXT = `(?<!\\b(?:href|xlink:href|xlinkHref|to|id)\\s*=\\s*\\{?\\s*["'\`]?|url\\(\\s*["']?)`;
+const HEX_PATTERN = new RegExp(`(?<![\\w&#])${FRAGMENT_CONTEXT}#(?:[0-9a-fA-F]{8}|[0-9a-fA-F]{6}|[0-9a-fA-F]{3,4})(?![\\w-])`, 'g');
+const COLOR_FUNCTION_PATTERN = /(?<![\w-])(?:rgba?|hsla?|oklch)\([^()$]*\)/g;
+
+// Layers that used each Tailwind z-index class in boombox-10.0 (see base/z-index.ts)
+const LEGACY_LAYERS: Record<string, string[]> = {
+  10: ['popup.dropdown', 'navigation.popover'],
+  20: ['navigation.mobileMenu'],
+  40: ['overlay.backdrop', 'navigation.adminHeader'],
+  50: ['overlay.modal', 'overlay.loading', 'overlay.drawer', 'popup.notification'],
+};
+
+// Opacity modifier for a translucent color (0.1 -> /10)
+function opacityModifier(alpha: number): string {
+  return alpha < 1 ? `/${Math.round(alpha * 100)}` : '';
+}
+
+// CSS reference to a color token, mixing in transparency for translucent values
+function cssColorReference(path: string, alpha: number): string {
+  const reference = `var(${toCssVariableName(path)})`;
+  return alpha < 1 ? `color-mix(in srgb, ${reference} ${Math.round(alpha * 1000) / 10}%, transparent)` : reference;
+}
+
+// Hit details shared by every color match
+function colorSuggestion(value: string, replace: (path: string, alpha: number) => string) {
+  const match = findNearestColorToken(value);
+  if (!match) return null;
+
+  return {
+    token: match.path,
+    quality: match.quality,
+    replacement: match.quality === 'none' ? undefined : replace(match.path, match.alpha),
+    note: match.quality === 'exact' ? undefined : `ΔE ${match.distance.toFixed(3)} from ${match.value}`,
+  };
+}
+
+// Elevation token whose value equals an arbitrary shadow (underscores are spaces in Tailwind)
+function findElevation(value: string): string | undefined {
+  const shadow = value.replace(/_/g, ' ').replace(/\s+/g, ' ').trim();
+  return Object.entries(shadows.elevation).find(([, token]) => token === shadow)?.[0];
+}
+
+// Find every hardcoded value in a source file
+export function scanTokenUsage(source: string): TokenUsageHit[] {
+  const hits: Omit<TokenUsageHit, 'line' | 'column'>[] = [];
+  const covered: [number, number][] = [];
+
+  const collect = (
+    pattern: RegExp,
+    build: (match: RegExpMatchArray) => Omit<TokenUsageHit, 'match' | 'index' | 'line' | 'column'> | null
+  ) => {
+    for (const match of source.matchAll(pattern)) {
+      const start = match.index as number;
+      const end = start + match[0].length;
+      // Values inside an already reported class (bg-[#222222]) are not reported twice
+      if (covered.some(([from, to]) => start < to && end > from)) continue;
+
+      const hit = build(match);
+      if (!hit) continue;
+      hits.push({ ...hit, match: match[0], index: start });
+      covered.push([start, end]);
+    }
+  };
+
+  collect(PALETTE_CLASS_PATTERN, ([, variants, utility, palette, shade, opacity]) => {
+    const value = (tailwindColors as unknown as Record<string, Record<string, string>>)[palette]?.[shade];
+    const suggestion = value && colorSuggestion(value, path =>
+      `${variants}${utility}-${tailwindColorName(path)}${opacity ? `/${opacity}` : ''}`
+    );
+    return suggestion ? { kind: 'tailwind-color', ...suggestion } : null;
+  });
+
+  collect(ARBITRARY_COLOR_CLASS_PATTERN, ([, variants, utility, value]) => {
+    const suggestion = colorSuggestion(value.replace(/_/g, ' '), (path, alpha) =>
+      `${variants}${utility}-${tailwindColorName(path)}${opacityModifier(alpha)}`
+    );
+    return suggestion ? { kind: 'tailwind-color', ...suggestion } : null;
+  });
+
+  collect(SHADOW_CLASS_PATTERN, ([, variants, shadow]) => {
+    const elevation = shadow === 'custom-shadow' ? 'custom' : findElevation(shadow.slice(1, -1));
+    return elevation
+      ? { kind: 'tailwind-shadow', token: `shadows.elevation.${elevation}`, quality: 'exact', replacement: `${variants}shadow-${elevation}` }
+      : { kind: 'tailwind-shadow', quality: 'none', note: 'No elevation token with this value' };
+  });
+
+  collect(Z_INDEX_CLASS_PATTERN, ([, variants, level]) => {
+    const candidates = LEGACY_LAYERS[level];
+    if (!candidates) {
+      return { kind: 'tailwind-z-index', quality: 'none', note: `No boombox-10.0 layer used z-${level}` };
+    }
+    return {
+      kind: 'tailwind-z-index',
+      token: `zIndex.${candidates[0]}`,
+      quality: 'review',
+      note: `Pick the layer: ${candidates.map(layer => `${variants}z-${layer.split('.').map(toKebabCase).join('-')}`).join(', ')}`,
+    };
+  });
+
+  for (const pattern of [HEX_PATTERN, COLOR_FUNCTION_PATTERN]) {
+    collect(pattern, ([value]) => {
+      const suggestion = colorSuggestion(value, cssColorReference);
+      return suggestion ? { kind: 'color', ...suggestion } : null;
+    });
+  }
+
+  // Line and column of each hit
+  const lineStarts = [0, ...[...source.matchAll(/\n/g)].map(match => (match.index as number) + 1)];
+  return hits
+    .sort((a, b) => a.index - b.index)
+    .map(hit => {
+      const line = lineStarts.filter(start => start <= hit.index).length;
+      return { ...hit, line, column: hit.index - lineStarts[line - 1] + 1 };
+    });
+}
+
+// Rewrite the hits that have a safe replacement
+export function applyTokenCodemod(source: string, hits: TokenUsageHit[], options: CodemodOptions = {}): CodemodResult {
+  const { includeNear = false } = options;
+  const rewritable = hits
+    .filter(hit => hit.replacement && (hit.quality === 'exact' || (includeNear && hit.quality === 'near')))
+    .sort((a, b) => b.index - a.index);
+
+  // Apply from the end so earlier offsets stay valid
+  const output = rewritable.reduce(
+    (text, hit) => text.slice(0, hit.index) + hit.replacement + text.slice(hit.index + hit.match.length),
+    source
+  );
+
+  return { output, applied: rewritable.length };
+}
+
+const SECTIONS: [string, TokenUsageKind][] = [
+  ['Raw colors', 'color'],
+  ['Tailwind color classes', 'tailwind-color'],
+  ['Tailwind shadow classes', 'tailwind-shadow'],
+  ['Tailwind z-index classes (review by hand)', 'tailwind-z-index'],
+];
+
+// Render a usage report as markdown, most used values first
+export function formatTokenUsageReport(results: FileTokenUsage[], title: string = 'Token usage'): string {
+  const hits = results.flatMap(({ file, hits: fileHits }) => fileHits.map(hit => ({ ...hit, file })));
+  const count = (quality: TokenUsageQuality) => hits.filter(hit => hit.quality === quality).length;
+  const lines = [
+    `## ${title}`,
+    '',
+    `${results.length} files scanned - ${hits.length} hardcoded values in ${results.filter(result => result.hits.length).length} files`,
+    '',
+    `${count('exact')} exact, ${count('near')} near, ${count('none')} without a token, ${count('review')} to review`,
+  ];
+
+  for (const [heading, kind] of SECTIONS) {
+    const groups = new Map<string, (typeof hits)[number][]>();
+    for (const hit of hits.filter(hit => hit.kind === kind)) {
+      const key = kind === 'color' ? hit.match.toLowerCase() : hit.match;
+      groups.set(key, [...(groups.get(key) ?? []), hit]);
+    }
+    if (!groups.size) continue;
+
+    lines.push('', `### ${heading}`, '', '| Value | Uses | Files | Token | Match | Replacement |', '| --- | --- | --- | --- | --- | --- |');
+    for (const [value, group] of [...groups].sort(([, a], [, b]) => b.length - a.length)) {
+      const [{ token, quality, replacement, note }] = group;
+      const files = new Set(group.map(hit => hit.file)).size;
+      const suggestion = [replacement && `\`${replacement}\``, note].filter(Boolean).join(' - ') || '-';
+      lines.push(`| \`${value}\` | ${group.length} | ${files} | ${token ? `\`${token}\`` : '-'} | ${quality} | ${suggestion} |`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}